@@ -1,10 +1,113 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { PronunciationCoach } from './components/PronunciationCoach';
+import { WelcomeScreen } from './components/WelcomeScreen';
+import { LoginPage } from './components/LoginPage';
+import { VerificationPage } from './components/VerificationPage';
+import { AdminPage } from './components/AdminPage';
+import { LoadingIcon } from './components/Icons';
+import { useHashRoute } from './hooks/useHashRoute';
+import * as authService from './services/authService';
+import { PRACTICE_PATH } from './services/practiceRoutes';
+import { User } from './types';
+
+const LOGIN_PATH = '/login';
+const ACTIVATE_PATH = '/activate';
+const ADMIN_PATH = '/admin';
+
+const withNext = (path: string, next: string) => `${path}?next=${encodeURIComponent(next)}`;
+
+// Only follow in-app paths, never an absolute URL smuggled into ?next=.
+const getSafeNext = (next: string | null) =>
+  next && next.startsWith('/') && !next.startsWith('//') ? next : PRACTICE_PATH;
+
+const Redirect: React.FC<{ to: string; navigate: (to: string, options?: { replace?: boolean }) => void }> = ({ to, navigate }) => {
+  useEffect(() => {
+    navigate(to, { replace: true });
+  }, [to, navigate]);
+  return null;
+};
+
+const FullScreenLoading: React.FC = () => (
+  <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex justify-center items-center">
+    <LoadingIcon className="w-10 h-10 text-orange-500" />
+  </div>
+);
 
 function App() {
-  // 所有与用户状态、登录和路由相关的逻辑都已被移除。
-  // 应用现在直接渲染核心的练习组件。
-  return <PronunciationCoach />;
+  const { path, query, navigate } = useHashRoute();
+  // Start from the cached user so returning learners see the app at once; the session
+  // check below corrects it if the server disagrees.
+  const [user, setUser] = useState<User | null>(authService.getCurrentUser);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+
+  useEffect(() => {
+    authService.fetchCurrentUser()
+      .then(setUser)
+      .finally(() => setIsCheckingSession(false));
+  }, []);
+
+  const handleLogout = async () => {
+    await authService.logout().catch(err => console.error('Logout failed:', err));
+    setUser(null);
+    navigate(LOGIN_PATH);
+  };
+
+  const [, section, param = null] = path.split('/');
+  const next = getSafeNext(query.get('next'));
+  const needsSessionCheck = isCheckingSession && !user;
+
+  switch (`/${section}`) {
+    case '/':
+      return <WelcomeScreen onStart={() => navigate(PRACTICE_PATH)} />;
+
+    case ADMIN_PATH:
+      // The admin console signs in and checks the admin role against the server itself.
+      return <AdminPage />;
+
+    case LOGIN_PATH:
+      if (needsSessionCheck) return <FullScreenLoading />;
+      if (user) return <Redirect to={next} navigate={navigate} />;
+      return (
+        <LoginPage
+          onLoginSuccess={signedIn => {
+            setUser(signedIn);
+            navigate(next, { replace: true });
+          }}
+        />
+      );
+
+    case ACTIVATE_PATH:
+      if (needsSessionCheck) return <FullScreenLoading />;
+      if (!user) return <Redirect to={withNext(LOGIN_PATH, withNext(ACTIVATE_PATH, next))} navigate={navigate} />;
+      if (authService.isUserActivated(user)) return <Redirect to={next} navigate={navigate} />;
+      return (
+        <VerificationPage
+          onVerificationSuccess={activated => {
+            setUser(activated);
+            navigate(next, { replace: true });
+          }}
+        />
+      );
+
+    case PRACTICE_PATH:
+      // Practice needs an account with an active subscription. The server enforces its
+      // quota on every evaluation regardless, and the coach shows it and offers the
+      // upgrade if the session or subscription lapses while the page is open.
+      if (needsSessionCheck) return <FullScreenLoading />;
+      if (!user) return <Redirect to={withNext(LOGIN_PATH, path)} navigate={navigate} />;
+      if (!authService.isUserActivated(user)) return <Redirect to={withNext(ACTIVATE_PATH, path)} navigate={navigate} />;
+      return (
+        <PronunciationCoach
+          practiceSlug={param}
+          onNavigate={navigate}
+          onActivate={() => navigate(withNext(ACTIVATE_PATH, path))}
+          onLogout={handleLogout}
+        />
+      );
+
+    default:
+      return <Redirect to="/" navigate={navigate} />;
+  }
 }
 
 export default App;
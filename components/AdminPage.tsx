@@ -1,49 +1,393 @@
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import * as authService from '../services/authService';
+import * as adminService from '../services/adminService';
+import { ACTIVATION_PLANS } from '../constants';
+import { AdminStats, AdminUserSummary, IssuedCodeRecord } from '../types';
+import { LoadingIcon } from './Icons';
 
-// Simple admin password, in a real app this would be more secure.
-const ADMIN_PASSWORD = 'supersecretadmin';
+type ConsoleState = 'checking' | 'signed_out' | 'forbidden' | 'ready';
+type Tab = 'stats' | 'codes' | 'users';
+
+const tabLabels: Record<Tab, string> = {
+    stats: '概览',
+    codes: '激活码',
+    users: '用户',
+};
+
+const codeStatusLabels: Record<Exclude<adminService.CodeStatusFilter, ''>, { label: string; className: string }> = {
+    unused: { label: '未使用', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+    redeemed: { label: '已使用', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' },
+    revoked: { label: '已作废', className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+const buttonClass = 'px-4 py-2 bg-orange-600 text-white font-semibold rounded-md hover:bg-orange-700 transition-colors disabled:bg-orange-400';
+
+const getPlanLabel = (durationDays: number): string =>
+    ACTIVATION_PLANS.find(plan => plan.durationDays === durationDays)?.label ?? `${durationDays}天`;
+
+const getCodeStatus = (record: IssuedCodeRecord) =>
+    record.revokedAt ? 'revoked' : record.redeemedAt ? 'redeemed' : 'unused';
+
+// Searches scan every record on the server, so wait for typing to pause.
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatDate = (timestamp: number | null | undefined) =>
+    timestamp ? new Date(timestamp).toLocaleString() : '—';
+
+const StatCard: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+    <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-center">
+        <p className="text-2xl font-bold text-gray-800 dark:text-white">{value}</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+    </div>
+);
+
+const StatsPanel: React.FC = () => {
+    const [stats, setStats] = useState<AdminStats | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        adminService.getStats().then(setStats).catch(err => setError(err.message));
+    }, []);
+
+    if (error) return <p className="text-red-500 text-center">{error}</p>;
+    if (!stats) return <LoadingIcon className="w-8 h-8 mx-auto text-orange-500" />;
+
+    const maxDaily = Math.max(1, ...stats.usage.map(day => day.evaluation + day.tts));
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                <StatCard label="注册用户" value={stats.users} />
+                <StatCard label="有效订阅" value={stats.activeSubscriptions} />
+                <StatCard label="已签发激活码" value={stats.codesIssued} />
+                <StatCard label="已使用" value={stats.codesRedeemed} />
+                <StatCard label="已作废" value={stats.codesRevoked} />
+            </div>
+            <div>
+                <h3 className="font-semibold text-gray-700 dark:text-gray-300 mb-2">近 {stats.usage.length} 天调用量（测评 / 朗读）</h3>
+                <ul className="space-y-1">
+                    {stats.usage.slice().reverse().map(day => (
+                        <li key={day.date} className="flex items-center gap-3 text-sm">
+                            <span className="w-24 font-mono text-gray-500 dark:text-gray-400">{day.date}</span>
+                            <div className="flex-1 flex h-3 bg-gray-100 dark:bg-gray-700 rounded overflow-hidden">
+                                <div className="bg-orange-500" style={{ width: `${(day.evaluation / maxDaily) * 100}%` }} />
+                                <div className="bg-blue-400" style={{ width: `${(day.tts / maxDaily) * 100}%` }} />
+                            </div>
+                            <span className="w-20 text-right text-gray-600 dark:text-gray-300">{day.evaluation} / {day.tts}</span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+const CodesPanel: React.FC = () => {
+    const [durationDays, setDurationDays] = useState(ACTIVATION_PLANS[0].durationDays);
+    const [count, setCount] = useState(10);
+    const [note, setNote] = useState('');
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [newCodes, setNewCodes] = useState<IssuedCodeRecord[]>([]);
+
+    const [status, setStatus] = useState<adminService.CodeStatusFilter>('');
+    const [query, setQuery] = useState('');
+    const [codes, setCodes] = useState<IssuedCodeRecord[]>([]);
+    const [total, setTotal] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadCodes = useCallback(async () => {
+        try {
+            const result = await adminService.listCodes(status, query.trim());
+            setCodes(result.codes);
+            setTotal(result.total);
+            setError(null);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, [status, query]);
+
+    useEffect(() => {
+        const timer = setTimeout(loadCodes, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [loadCodes]);
+
+    const handleGenerate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsGenerating(true);
+        try {
+            const result = await adminService.generateCodes({ durationDays, count, note });
+            setNewCodes(result.codes);
+            setNote('');
+            await loadCodes();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleRevoke = async (code: string) => {
+        if (!window.confirm(`确定作废激活码 ${code}？此操作无法撤销。`)) return;
+        try {
+            await adminService.revokeCode(code);
+            await loadCodes();
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleCopyNewCodes = () => {
+        navigator.clipboard?.writeText(newCodes.map(record => record.code).join('\n'))
+            .catch(() => setError('复制失败，请手动选择。'));
+    };
+
+    return (
+        <div className="space-y-6">
+            <form onSubmit={handleGenerate} className="flex flex-wrap items-end gap-3 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                <label className="flex flex-col text-sm text-gray-600 dark:text-gray-300">
+                    套餐
+                    <select value={durationDays} onChange={e => setDurationDays(Number(e.target.value))} className={inputClass}>
+                        {ACTIVATION_PLANS.map(plan => (
+                            <option key={plan.durationDays} value={plan.durationDays}>{plan.label}（{plan.durationDays}天）</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col text-sm text-gray-600 dark:text-gray-300">
+                    数量
+                    <input type="number" min={1} max={200} value={count} onChange={e => setCount(Number(e.target.value))} className={`${inputClass} w-24`} />
+                </label>
+                <label className="flex flex-col flex-1 min-w-[8rem] text-sm text-gray-600 dark:text-gray-300">
+                    备注
+                    <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="例如 微店订单号" className={inputClass} />
+                </label>
+                <button type="submit" disabled={isGenerating} className={buttonClass}>
+                    {isGenerating ? <LoadingIcon className="w-5 h-5" /> : '生成'}
+                </button>
+            </form>
+
+            {newCodes.length > 0 && (
+                <div className="p-4 border border-orange-300 dark:border-orange-700 rounded-lg">
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 className="font-semibold text-gray-700 dark:text-gray-300">新生成 {newCodes.length} 个（{getPlanLabel(newCodes[0].durationDays)}）</h3>
+                        <button onClick={handleCopyNewCodes} className="text-sm text-orange-600 hover:underline">复制全部</button>
+                    </div>
+                    <pre className="text-sm font-mono text-gray-800 dark:text-gray-200 whitespace-pre-wrap select-all">
+                        {newCodes.map(record => record.code).join('\n')}
+                    </pre>
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+                <select value={status} onChange={e => setStatus(e.target.value as adminService.CodeStatusFilter)} className={inputClass}>
+                    <option value="">全部状态</option>
+                    {Object.entries(codeStatusLabels).map(([value, { label }]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+                <input
+                    type="search"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="搜索激活码、批次或使用者"
+                    className={`${inputClass} flex-1`}
+                />
+            </div>
+
+            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+
+            <p className="text-sm text-gray-500 dark:text-gray-400">共 {total} 个{total > codes.length ? `，显示最近 ${codes.length} 个` : ''}</p>
+            <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+                {codes.map(record => {
+                    const statusInfo = codeStatusLabels[getCodeStatus(record)];
+                    return (
+                        <li key={record.code} className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md">
+                            <div className="flex justify-between items-center gap-2">
+                                <span className="font-mono text-gray-800 dark:text-gray-200 break-all">{record.code}</span>
+                                <div className="flex items-center gap-2 shrink-0">
+                                    <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200">
+                                        {getPlanLabel(record.durationDays)}
+                                    </span>
+                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${statusInfo.className}`}>{statusInfo.label}</span>
+                                    {!record.redeemedAt && !record.revokedAt && (
+                                        <button onClick={() => handleRevoke(record.code)} className="text-xs text-red-600 hover:underline">作废</button>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 space-x-3">
+                                <span>批次 {record.batchId}</span>
+                                <span>签发于 {formatDate(record.createdAt)}</span>
+                                {record.note && <span>备注 {record.note}</span>}
+                                {record.redeemedBy && <span>使用者 {record.redeemedBy}（{formatDate(record.redeemedAt)}）</span>}
+                                {record.revokedAt && <span>作废于 {formatDate(record.revokedAt)}</span>}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+const UsersPanel: React.FC = () => {
+    const [query, setQuery] = useState('');
+    const [users, setUsers] = useState<AdminUserSummary[]>([]);
+    const [total, setTotal] = useState(0);
+    const [extendDays, setExtendDays] = useState(ACTIVATION_PLANS[0].durationDays);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadUsers = useCallback(async () => {
+        try {
+            const result = await adminService.searchUsers(query.trim());
+            setUsers(result.users);
+            setTotal(result.total);
+            setError(null);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, [query]);
+
+    useEffect(() => {
+        const timer = setTimeout(loadUsers, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [loadUsers]);
+
+    const handleUpdate = async (identifier: string, action: 'extend' | 'cancel') => {
+        if (action === 'cancel' && !window.confirm(`确定取消 ${identifier} 的订阅？`)) return;
+        try {
+            const updated = await adminService.updateSubscription({ identifier, action, days: extendDays });
+            setUsers(prev => prev.map(user => (user.identifier === identifier ? updated : user)));
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-3">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="搜索手机号"
+                    className={`${inputClass} flex-1`}
+                />
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                    延长
+                    <input type="number" min={1} value={extendDays} onChange={e => setExtendDays(Number(e.target.value))} className={`${inputClass} w-24`} />
+                    天
+                </label>
+            </div>
+
+            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+
+            <p className="text-sm text-gray-500 dark:text-gray-400">共 {total} 个用户{total > users.length ? `，显示最近注册的 ${users.length} 个` : ''}</p>
+            <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+                {users.map(user => {
+                    const isActive = authService.isUserActivated(user);
+                    return (
+                        <li key={user.identifier} className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md flex flex-wrap justify-between items-center gap-2">
+                            <div>
+                                <p className="font-mono text-gray-800 dark:text-gray-200">{user.identifier}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    注册于 {formatDate(user.createdAt)} · {isActive ? `订阅至 ${formatDate(user.subscriptionExpiresAt)}` : '未订阅'}
+                                </p>
+                            </div>
+                            <div className="flex gap-3 text-sm">
+                                <button onClick={() => handleUpdate(user.identifier, 'extend')} className="text-orange-600 hover:underline">延长 {extendDays} 天</button>
+                                {isActive && (
+                                    <button onClick={() => handleUpdate(user.identifier, 'cancel')} className="text-red-600 hover:underline">取消订阅</button>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
 
 export const AdminPage: React.FC = () => {
-    const [isAuthenticated, setIsAuthenticated] = useState(false);
+    const [consoleState, setConsoleState] = useState<ConsoleState>('checking');
+    const [tab, setTab] = useState<Tab>('stats');
+    const [identifier, setIdentifier] = useState('');
     const [password, setPassword] = useState('');
     const [authError, setAuthError] = useState('');
+    const [isSigningIn, setIsSigningIn] = useState(false);
 
-    const [codes, setCodes] = useState<authService.ActivationCodeStore>({ used: {} });
+    // The server decides who is an admin; a cheap admin call tells us which state we are in.
+    const checkAccess = useCallback(async () => {
+        try {
+            await adminService.getStats();
+            setConsoleState('ready');
+        } catch (err: any) {
+            setConsoleState(err.status === 403 ? 'forbidden' : 'signed_out');
+            if (err.status && err.status !== 401 && err.status !== 403) {
+                setAuthError(err.message);
+            }
+        }
+    }, []);
 
     useEffect(() => {
-        if (isAuthenticated) {
-            const currentCodes = authService.getAllActivationCodes();
-            setCodes(currentCodes);
-        }
-    }, [isAuthenticated]);
+        checkAccess();
+    }, [checkAccess]);
 
-    const handlePasswordSubmit = (e: React.FormEvent) => {
+    const handleSignIn = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (password === ADMIN_PASSWORD) {
-            setIsAuthenticated(true);
-            setAuthError('');
-        } else {
-            setAuthError('密码错误。');
+        setIsSigningIn(true);
+        setAuthError('');
+        try {
+            await authService.login(identifier, password);
+            setPassword('');
+            await checkAccess();
+        } catch (err: any) {
+            setAuthError(err.message);
+        } finally {
+            setIsSigningIn(false);
         }
     };
 
-    if (!isAuthenticated) {
+    const handleSignOut = async () => {
+        await authService.logout().catch(err => console.error('Logout failed:', err));
+        setConsoleState('signed_out');
+    };
+
+    if (consoleState === 'checking') {
+        return (
+            <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex justify-center items-center">
+                <LoadingIcon className="w-10 h-10 text-orange-500" />
+            </div>
+        );
+    }
+
+    if (consoleState !== 'ready') {
         return (
             <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex justify-center items-center p-4">
                 <div className="max-w-sm w-full bg-white dark:bg-gray-800 rounded-lg shadow-md p-8">
                     <h1 className="text-2xl font-bold text-center text-gray-800 dark:text-white mb-6">管理员登录</h1>
-                    <form onSubmit={handlePasswordSubmit}>
+                    {consoleState === 'forbidden' && (
+                        <p className="text-sm text-center text-gray-600 dark:text-gray-300 mb-4">当前账户没有管理员权限，请使用管理员账户登录。</p>
+                    )}
+                    <form onSubmit={handleSignIn} className="space-y-3">
+                        <input
+                            type="text"
+                            value={identifier}
+                            onChange={(e) => setIdentifier(e.target.value)}
+                            placeholder="管理员手机号"
+                            required
+                            className={`w-full ${inputClass}`}
+                        />
                         <input
                             type="password"
                             value={password}
                             onChange={(e) => setPassword(e.target.value)}
-                            placeholder="请输入管理员密码"
-                            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                            placeholder="密码"
+                            required
+                            className={`w-full ${inputClass}`}
                         />
-                        {authError && <p className="text-red-500 text-sm mt-2 text-center">{authError}</p>}
-                        <button type="submit" className="w-full mt-4 px-4 py-2 bg-orange-600 text-white font-semibold rounded-md hover:bg-orange-700 transition-colors">
-                            登录
+                        {authError && <p className="text-red-500 text-sm text-center">{authError}</p>}
+                        <button type="submit" disabled={isSigningIn} className={`w-full flex justify-center ${buttonClass}`}>
+                            {isSigningIn ? <LoadingIcon className="w-5 h-5" /> : '登录'}
                         </button>
                     </form>
                 </div>
@@ -51,41 +395,27 @@ export const AdminPage: React.FC = () => {
         );
     }
 
-    const usedCodesCount = Object.keys(codes.used).length;
-
     return (
         <div className="min-h-screen bg-gray-100 dark:bg-gray-900 p-4 sm:p-8">
-            <div className="max-w-2xl mx-auto bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 sm:p-8">
-                <h1 className="text-3xl font-bold text-gray-800 dark:text-white mb-8 text-center">激活码使用记录</h1>
-
-                <section>
-                    <h2 className="text-2xl font-semibold text-gray-700 dark:text-gray-300 mb-4">已用激活码 ({usedCodesCount})</h2>
-                     <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg max-h-[70vh] overflow-y-auto">
-                        {usedCodesCount > 0 ? (
-                            <ul className="space-y-3">
-                                {/* FIX: Explicitly cast the result of Object.entries to ensure correct type inference for sort and map callbacks. */}
-                                {(Object.entries(codes.used) as [string, authService.UsedCodeInfo][])
-                                  .sort(([, a], [, b]) => b.activationTimestamp - a.activationTimestamp) // Show most recent first
-                                  .map(([code, info]) => (
-                                    <li key={code} className="p-3 bg-white dark:bg-gray-800 rounded-md shadow-sm">
-                                        <div className="flex justify-between items-center font-mono">
-                                            <span className="text-gray-500 dark:text-gray-400 line-through text-lg">{code}</span>
-                                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${code.length === 3 ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'}`}>
-                                                {code.length === 3 ? '月卡' : '年卡'}
-                                            </span>
-                                        </div>
-                                        <div className="text-sm text-gray-600 dark:text-gray-300 mt-2 border-t border-gray-200 dark:border-gray-700 pt-2">
-                                            <p><strong>使用者:</strong> {info.userIdentifier}</p>
-                                            <p><strong>激活于:</strong> {new Date(info.activationTimestamp).toLocaleString()}</p>
-                                        </div>
-                                    </li>
-                                ))}
-                            </ul>
-                        ) : (
-                            <p className="text-gray-500 dark:text-gray-400 text-center py-4">还没有任何激活码被使用。</p>
-                        )}
-                    </div>
-                </section>
+            <div className="max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 sm:p-8">
+                <div className="flex justify-between items-center mb-6">
+                    <h1 className="text-3xl font-bold text-gray-800 dark:text-white">管理后台</h1>
+                    <button onClick={handleSignOut} className="text-sm text-gray-500 hover:text-orange-600">退出登录</button>
+                </div>
+                <nav className="flex gap-2 mb-6 border-b border-gray-200 dark:border-gray-700">
+                    {(Object.keys(tabLabels) as Tab[]).map(key => (
+                        <button
+                            key={key}
+                            onClick={() => setTab(key)}
+                            className={`px-4 py-2 -mb-px border-b-2 font-semibold transition-colors ${tab === key ? 'border-orange-600 text-orange-600' : 'border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'}`}
+                        >
+                            {tabLabels[key]}
+                        </button>
+                    ))}
+                </nav>
+                {tab === 'stats' && <StatsPanel />}
+                {tab === 'codes' && <CodesPanel />}
+                {tab === 'users' && <UsersPanel />}
             </div>
         </div>
     );
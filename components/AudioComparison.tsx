@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Accent, PracticeItem } from '../types';
+import { RecordingResult } from '../hooks/useAudioRecorder';
+import { ReferenceSource, fetchReferenceAudio } from '../services/referenceAudio';
+import { computeSpectrogram, computeWaveformPeaks, findSpeechBounds } from '../services/audioAnalysis';
+import { LoadingIcon } from './Icons';
+
+interface AudioComparisonProps {
+  recording: RecordingResult;
+  item: PracticeItem;
+  refSource: ReferenceSource;
+  accent: Accent;
+}
+
+interface AlignedClip {
+  samples: Float32Array; // Speech portion only, leading/trailing silence removed
+  sampleRate: number;
+}
+
+const CANVAS_WIDTH = 600;
+const WAVEFORM_HEIGHT = 60;
+const SPECTROGRAM_HEIGHT = 100;
+const MAX_DISPLAY_FREQUENCY = 8000; // The learner's audio is 16 kHz, so nothing lies above 8 kHz
+const DYNAMIC_RANGE_DB = 70;
+const SPEECH_PADDING_SECONDS = 0.05;
+
+const trimToSpeech = (buffer: AudioBuffer): AlignedClip => {
+  const samples = buffer.getChannelData(0);
+  const { start, end } = findSpeechBounds(samples, buffer.sampleRate);
+  const padding = Math.round(SPEECH_PADDING_SECONDS * buffer.sampleRate);
+  return {
+    samples: samples.subarray(Math.max(0, start - padding), Math.min(samples.length, end + padding)),
+    sampleRate: buffer.sampleRate,
+  };
+};
+
+const getDuration = (clip: AlignedClip) => clip.samples.length / clip.sampleRate;
+
+const drawWaveform = (canvas: HTMLCanvasElement, clip: AlignedClip, totalDuration: number, color: string) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  const width = Math.max(1, Math.round((getDuration(clip) / totalDuration) * canvas.width));
+  const { min, max } = computeWaveformPeaks(clip.samples, width);
+  const mid = canvas.height / 2;
+  ctx.fillStyle = color;
+  for (let x = 0; x < width; x++) {
+    const top = mid - max[x] * mid;
+    const bottom = mid - min[x] * mid;
+    ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+  }
+};
+
+const drawSpectrogram = (canvas: HTMLCanvasElement, clip: AlignedClip, totalDuration: number) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  const spectrogram = computeSpectrogram(clip.samples, clip.sampleRate);
+  if (spectrogram.frames.length === 0) return;
+
+  const binHz = clip.sampleRate / spectrogram.fftSize;
+  const maxBin = Math.min(spectrogram.frames[0].length, Math.floor(MAX_DISPLAY_FREQUENCY / binHz));
+  let peakDb = -Infinity;
+  for (const frame of spectrogram.frames) {
+    for (let bin = 0; bin < maxBin; bin++) peakDb = Math.max(peakDb, frame[bin]);
+  }
+
+  const width = Math.max(1, Math.round((getDuration(clip) / totalDuration) * canvas.width));
+  const image = ctx.createImageData(width, canvas.height);
+  for (let x = 0; x < width; x++) {
+    const frame = spectrogram.frames[Math.min(spectrogram.frames.length - 1, Math.floor((x / width) * spectrogram.frames.length))];
+    for (let y = 0; y < canvas.height; y++) {
+      const bin = Math.floor(((canvas.height - 1 - y) / canvas.height) * maxBin);
+      const level = Math.max(0, Math.min(1, (frame[bin] - peakDb + DYNAMIC_RANGE_DB) / DYNAMIC_RANGE_DB));
+      // Dark blue for silence through orange to pale yellow for the strongest energy.
+      const offset = (y * width + x) * 4;
+      image.data[offset] = Math.round(255 * Math.min(1, level * 1.6));
+      image.data[offset + 1] = Math.round(255 * Math.max(0, level * 1.4 - 0.4));
+      image.data[offset + 2] = Math.round(90 * (1 - level) + 60 * Math.max(0, level - 0.8));
+      image.data[offset + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * Draws the learner's recording and the reference audio as time-aligned waveforms
+ * and spectrograms. Formant and frication differences (e.g. /æ/ vs /e/, /s/ vs /θ/)
+ * are much easier to see here than in a single score.
+ */
+export const AudioComparison: React.FC<AudioComparisonProps> = ({ recording, item, refSource, accent }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [clips, setClips] = useState<{ learner: AlignedClip; reference: AlignedClip } | null>(null);
+
+  const learnerWaveRef = useRef<HTMLCanvasElement>(null);
+  const referenceWaveRef = useRef<HTMLCanvasElement>(null);
+  const learnerSpecRef = useRef<HTMLCanvasElement>(null);
+  const referenceSpecRef = useRef<HTMLCanvasElement>(null);
+
+  // A new recording or reference invalidates the current analysis.
+  useEffect(() => {
+    setClips(null);
+    setIsExpanded(false);
+    setError(null);
+  }, [recording, item, refSource, accent]);
+
+  useEffect(() => {
+    if (!isExpanded || clips) return;
+
+    let cancelled = false;
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    setIsLoading(true);
+    setError(null);
+
+    (async () => {
+      const learnerBuffer = recording.audioBuffer;
+      const referenceBuffer = await audioContext.decodeAudioData(await fetchReferenceAudio(item, refSource, accent));
+      if (!cancelled) {
+        setClips({ learner: trimToSpeech(learnerBuffer), reference: trimToSpeech(referenceBuffer) });
+      }
+    })()
+      .catch((err) => {
+        console.error('Failed to prepare audio comparison:', err);
+        if (!cancelled) setError(err.message || '无法生成对比图。');
+      })
+      .finally(() => {
+        audioContext.close();
+        setIsLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [isExpanded, clips, recording, item, refSource, accent]);
+
+  useEffect(() => {
+    if (!clips) return;
+    const totalDuration = Math.max(getDuration(clips.learner), getDuration(clips.reference));
+    if (totalDuration === 0) return;
+
+    if (learnerWaveRef.current) drawWaveform(learnerWaveRef.current, clips.learner, totalDuration, '#ea580c');
+    if (referenceWaveRef.current) drawWaveform(referenceWaveRef.current, clips.reference, totalDuration, '#6b7280');
+    if (learnerSpecRef.current) drawSpectrogram(learnerSpecRef.current, clips.learner, totalDuration);
+    if (referenceSpecRef.current) drawSpectrogram(referenceSpecRef.current, clips.reference, totalDuration);
+  }, [clips]);
+
+  const canvasClass = 'w-full rounded bg-gray-100 dark:bg-gray-900';
+
+  return (
+    <div className="my-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="text-sm font-medium text-orange-600 dark:text-orange-400 hover:underline"
+      >
+        {isExpanded ? '收起波形对比' : '查看波形与频谱对比'}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 p-4 space-y-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+          {isLoading && <div className="flex justify-center py-4"><LoadingIcon className="w-6 h-6 text-orange-500" /></div>}
+          {error && <p className="text-center text-sm text-red-500">{error}</p>}
+          {clips && (
+            <>
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">波形 · <span className="text-orange-600">我的录音</span></p>
+                <canvas ref={learnerWaveRef} width={CANVAS_WIDTH} height={WAVEFORM_HEIGHT} className={canvasClass} />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 mb-1">波形 · 示范</p>
+                <canvas ref={referenceWaveRef} width={CANVAS_WIDTH} height={WAVEFORM_HEIGHT} className={canvasClass} />
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">频谱 (0–8 kHz) · 我的录音</p>
+                <canvas ref={learnerSpecRef} width={CANVAS_WIDTH} height={SPECTROGRAM_HEIGHT} className={canvasClass} />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 mb-1">频谱 (0–8 kHz) · 示范</p>
+                <canvas ref={referenceSpecRef} width={CANVAS_WIDTH} height={SPECTROGRAM_HEIGHT} className={canvasClass} />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,23 @@
 import React from 'react';
-import { PhonemeSuperCategory } from '../types';
-import { PhonemeIcon } from './Icons';
+import { MasteryProgress, PhonemeSuperCategory, PracticeItem, PracticeLevel } from '../types';
+import { PhonemeIcon, WordIcon, PhraseIcon, SentenceIcon, LockIcon, CheckCircleIcon } from './Icons';
+
+interface LevelPickerProps {
+    selectedLevel: PracticeLevel;
+    availableLevels: PracticeLevel[];
+    levelProgress?: { [level in PracticeLevel]?: MasteryProgress };
+    onSelectLevel: (level: PracticeLevel) => void;
+}
+
+interface ItemListProps {
+    title: string;
+    items: PracticeItem[];
+    onSelectItem: (index: number) => void;
+}
 
 interface PhonemePathProps {
     phonemeData: PhonemeSuperCategory[];
+    categoryProgress?: { [categoryTitle: string]: MasteryProgress };
     onSelectCategory: (category: string) => void;
     onBack?: () => void; // This prop is kept for type consistency but is unused.
 }
@@ -12,13 +26,106 @@ const phonemeCategoryConfig: {[key: string]: { color: string, hover: string }} =
     'Long Vowels (长元音)': { color: 'bg-red-500', hover: 'hover:bg-red-600' },
     'Short Vowels (短元音)': { color: 'bg-orange-500', hover: 'hover:bg-orange-600' },
     'Diphthongs (双元音)': { color: 'bg-yellow-500', hover: 'hover:bg-yellow-600' },
+    'R-Coloured Vowels (卷舌元音)': { color: 'bg-lime-500', hover: 'hover:bg-lime-600' }, // American track only
     'Voiceless Consonants (清辅音)': { color: 'bg-blue-500', hover: 'hover:bg-blue-600' },
     'Voiced Consonants (浊辅音)': { color: 'bg-indigo-500', hover: 'hover:bg-indigo-600' },
 };
 
+export const levelConfig: {[key in PracticeLevel]: { title: string, icon: React.FC<{ className?: string }> }} = {
+    [PracticeLevel.Phonemes]: { title: '音标', icon: PhonemeIcon },
+    [PracticeLevel.Words]: { title: '单词', icon: WordIcon },
+    [PracticeLevel.Phrases]: { title: '短语', icon: PhraseIcon },
+    [PracticeLevel.Sentences]: { title: '句子', icon: SentenceIcon },
+};
+
+const ProgressRing: React.FC<{ progress: number }> = ({ progress }) => {
+    const circumference = 2 * Math.PI * 46;
+    const offset = circumference - progress * circumference;
+
+    return (
+        <svg className="absolute -inset-2 w-24 h-24 pointer-events-none" viewBox="0 0 100 100">
+            <circle
+                className="text-gray-200 dark:text-gray-700"
+                strokeWidth="6" stroke="currentColor" fill="transparent"
+                r="46" cx="50" cy="50"
+            />
+            <circle
+                className="stroke-green-500 transition-all duration-1000 ease-out"
+                strokeWidth="6" strokeDasharray={circumference} strokeDashoffset={offset}
+                strokeLinecap="round" fill="transparent"
+                r="46" cx="50" cy="50" transform="rotate(-90 50 50)"
+            />
+        </svg>
+    );
+};
+
+/**
+ * A row of tabs for switching between practice levels.
+ * Levels without any content yet are shown but disabled.
+ */
+export const LevelPicker: React.FC<LevelPickerProps> = ({ selectedLevel, availableLevels, levelProgress, onSelectLevel }) => {
+    return (
+        <div className="w-full max-w-md mx-auto pt-4 grid grid-cols-4 gap-2">
+            {(Object.keys(levelConfig) as PracticeLevel[]).map((level) => {
+                const { title, icon: Icon } = levelConfig[level];
+                const progress = levelProgress?.[level];
+                const isLocked = !!progress?.isLocked;
+                const isAvailable = availableLevels.includes(level) && !isLocked;
+                const isSelected = level === selectedLevel;
+
+                return (
+                    <button
+                        key={level}
+                        onClick={() => onSelectLevel(level)}
+                        disabled={!isAvailable}
+                        className={`flex flex-col items-center gap-1 py-3 rounded-lg font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed
+                            ${isSelected
+                                ? 'bg-orange-500 text-white shadow'
+                                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-orange-50 dark:hover:bg-gray-700'
+                            }
+                        `}
+                        title={isLocked ? '完成上一级别后解锁' : isAvailable ? undefined : '即将推出'}
+                    >
+                        {isLocked ? <LockIcon className="w-6 h-6" /> : <Icon className="w-6 h-6" />}
+                        <span className="text-sm">{title}</span>
+                        {progress && !isLocked && (
+                            <span className="text-xs opacity-80">{progress.mastered}/{progress.total}</span>
+                        )}
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+/**
+ * Lists the items of a flat practice level (words, phrases, sentences) so the
+ * learner can jump straight into any of them.
+ */
+export const ItemList: React.FC<ItemListProps> = ({ title, items, onSelectItem }) => {
+    return (
+        <div className="w-full max-w-2xl mx-auto py-8">
+            <h2 className="text-3xl font-bold text-center mb-2 text-gray-800 dark:text-gray-200">{title}</h2>
+            <p className="text-center text-gray-500 dark:text-gray-400 mb-8">共 {items.length} 个练习，点击任意一项开始。</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {items.map((item, index) => (
+                    <button
+                        key={item.text}
+                        onClick={() => onSelectItem(index)}
+                        className="p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm text-left hover:bg-orange-50 dark:hover:bg-gray-700 transition-colors"
+                    >
+                        <p className="font-semibold text-lg text-gray-800 dark:text-gray-100">{item.text}</p>
+                        <p className="font-mono text-sm text-gray-500 dark:text-gray-400">{item.ipa}</p>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
 // The main LevelPath component has been removed as per the new requirements.
 // Only PhonemePath remains, and it has been simplified.
-export const PhonemePath: React.FC<PhonemePathProps> = ({ phonemeData, onSelectCategory }) => {
+export const PhonemePath: React.FC<PhonemePathProps> = ({ phonemeData, categoryProgress, onSelectCategory }) => {
     const allCategories = phonemeData.flatMap(sup => sup.categories);
 
     return (
@@ -31,6 +138,8 @@ export const PhonemePath: React.FC<PhonemePathProps> = ({ phonemeData, onSelectC
                     {allCategories.map((category) => {
                         const config = phonemeCategoryConfig[category.title] || { color: 'bg-gray-500', hover: 'hover:bg-gray-600' };
                         const [title, subtitle] = category.title.split(' (');
+                        const progress = categoryProgress?.[category.title];
+                        const isLocked = !!progress?.isLocked;
 
                         return (
                             <li key={category.title} className="flex items-center">
@@ -40,16 +149,25 @@ export const PhonemePath: React.FC<PhonemePathProps> = ({ phonemeData, onSelectC
                                 </div>
 
                                 <div className="relative">
+                                    {progress && !isLocked && <ProgressRing progress={progress.progress} />}
                                     <button
                                         onClick={() => onSelectCategory(category.title)}
-                                        className={`w-20 h-20 rounded-full flex items-center justify-center text-white shadow-lg transform transition-transform duration-200 ${config.color} ${config.hover} hover:scale-105`}
-                                        aria-label={`Start ${title}`}
+                                        disabled={isLocked}
+                                        className={`w-20 h-20 rounded-full flex items-center justify-center text-white shadow-lg transform transition-transform duration-200 ${isLocked ? 'bg-gray-400 dark:bg-gray-600 cursor-not-allowed' : `${config.color} ${config.hover} hover:scale-105`}`}
+                                        aria-label={isLocked ? `${title} (locked)` : `Start ${title}`}
                                     >
-                                        <PhonemeIcon className="w-10 h-10" />
+                                        {isLocked ? <LockIcon className="w-10 h-10" /> : <PhonemeIcon className="w-10 h-10" />}
                                     </button>
+                                    {progress?.isComplete && (
+                                        <CheckCircleIcon className="absolute -top-2 -right-2 w-8 h-8 text-green-500 bg-white dark:bg-gray-900 rounded-full" />
+                                    )}
                                 </div>
                                 
-                                <div className="flex-1"></div>
+                                <div className="flex-1 pl-6">
+                                    {progress && !isLocked && (
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">已掌握 {progress.mastered}/{progress.total}</p>
+                                    )}
+                                </div>
                             </li>
                         );
                     })}
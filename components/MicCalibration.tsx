@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MicCalibration as MicCalibrationResult, RecordingQuality } from '../types';
+import { RECORDING_ISSUE_ADVICE } from '../constants';
+import { PCM_SAMPLE_RATE } from '../services/audioUtils';
+import { captureSample } from '../services/micCalibration';
+import { analyzeRecordingQuality } from '../services/recordingQuality';
+import { CheckCircleIcon, LoadingIcon, MicIcon } from './Icons';
+
+const NOISE_SAMPLE_MS = 2000;
+const SPEECH_SAMPLE_MS = 4000;
+const CALIBRATION_SENTENCE = 'The quick brown fox jumps over the lazy dog.';
+
+type Step = 'intro' | 'noise' | 'speech' | 'result' | 'error';
+
+interface MicCalibrationProps {
+  onDone: (calibration: MicCalibrationResult) => void;
+  onSkip: () => void;
+}
+
+/**
+ * The optional microphone check: a couple of seconds of silence to measure the room,
+ * then a sentence read aloud, checked the same way every take is before scoring.
+ */
+export const MicCalibration: React.FC<MicCalibrationProps> = ({ onDone, onSkip }) => {
+  const [step, setStep] = useState<Step>('intro');
+  const [noiseDb, setNoiseDb] = useState<number | null>(null);
+  const [quality, setQuality] = useState<RecordingQuality | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const releaseMicrophone = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => releaseMicrophone, []);
+
+  const runCheck = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+
+      setStep('noise');
+      const noise = analyzeRecordingQuality(await captureSample(stream, NOISE_SAMPLE_MS), PCM_SAMPLE_RATE);
+      setNoiseDb(noise.rmsDb);
+
+      setStep('speech');
+      const speech = await captureSample(stream, SPEECH_SAMPLE_MS);
+      setQuality(analyzeRecordingQuality(speech, PCM_SAMPLE_RATE, noise.rmsDb));
+      setStep('result');
+    } catch (err) {
+      console.error('Microphone check failed:', err);
+      setStep('error');
+    } finally {
+      releaseMicrophone();
+    }
+  };
+
+  const renderBody = () => {
+    switch (step) {
+      case 'intro':
+        return (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              首次使用建议花几秒检测一下麦克风：先保持安静，再朗读一句话。录音有问题时评分会偏低。
+            </p>
+            <div className="mt-3 flex gap-3">
+              <button onClick={runCheck} className="px-4 py-2 font-semibold bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors">
+                开始检测
+              </button>
+              <button onClick={onSkip} className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:underline">
+                跳过
+              </button>
+            </div>
+          </>
+        );
+      case 'noise':
+        return (
+          <p className="flex items-center gap-2 text-gray-700 dark:text-gray-200">
+            <LoadingIcon className="w-5 h-5 text-orange-500" /> 请保持安静，正在测量环境噪音...
+          </p>
+        );
+      case 'speech':
+        return (
+          <p className="flex items-center gap-2 text-gray-700 dark:text-gray-200">
+            <MicIcon className="w-5 h-5 text-red-500" />
+            <span>请用平常的音量朗读：<strong>{CALIBRATION_SENTENCE}</strong></span>
+          </p>
+        );
+      case 'result': {
+        const issues = quality!.issues.filter(issue => issue !== 'too_short');
+        return (
+          <>
+            {issues.length ? (
+              <ul className="space-y-1 text-sm text-yellow-800 dark:text-yellow-200">
+                {issues.map(issue => <li key={issue}>⚠ {RECORDING_ISSUE_ADVICE[issue]}</li>)}
+              </ul>
+            ) : (
+              <p className="flex items-center gap-2 text-green-700 dark:text-green-400">
+                <CheckCircleIcon className="w-5 h-5" /> 麦克风状态良好。
+              </p>
+            )}
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              环境噪音 {Math.round(noiseDb!)} dB · 朗读音量 {Math.round(quality!.rmsDb)} dB · 信噪比 {Math.round(quality!.snrDb)} dB
+            </p>
+            <div className="mt-3 flex gap-3">
+              <button
+                onClick={() => onDone({ calibratedAt: Date.now(), noiseDb })}
+                className="px-4 py-2 font-semibold bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+              >
+                完成
+              </button>
+              <button onClick={runCheck} className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:underline">
+                重新检测
+              </button>
+            </div>
+          </>
+        );
+      }
+      case 'error':
+        return (
+          <>
+            <p className="text-sm text-red-600 dark:text-red-400">无法访问麦克风。请检查浏览器权限。</p>
+            <div className="mt-3 flex gap-3">
+              <button onClick={runCheck} className="px-4 py-2 text-orange-600 dark:text-orange-400 hover:underline">
+                重试
+              </button>
+              <button onClick={onSkip} className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:underline">
+                跳过
+              </button>
+            </div>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-4 p-4 bg-orange-50 dark:bg-gray-800 border border-orange-300 dark:border-orange-700 rounded-lg">
+      <h3 className="font-bold text-gray-800 dark:text-gray-200 mb-2">麦克风检测</h3>
+      {renderBody()}
+    </div>
+  );
+};
@@ -1,16 +1,28 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { PracticeItem, PracticeLevel, EvaluationResult } from '../types';
-import { SpeakerIcon, MicIcon, StopIcon, LoadingIcon } from './Icons';
+import { Accent, PracticeItem, PracticeLevel, EvaluationResult, PlaybackSpeed, RecordingQuality } from '../types';
+import { ACCENT_TTS_VOICES, PLAYBACK_SPEEDS, VAD_CONFIG } from '../constants';
+import { RecordingResult } from '../hooks/useAudioRecorder';
+import { useSegmentPlayer } from '../hooks/useSegmentPlayer';
+import { SpeakerIcon, MicIcon, StopIcon, LoadingIcon, PlayIcon } from './Icons';
 import { ScoreDisplay } from './ScoreDisplay';
+import { AudioComparison } from './AudioComparison';
+import { RecordingQualityNotice } from './RecordingQualityNotice';
+import { levelConfig } from './LevelPath';
 import { getTtsAudio } from '../services/xunfeiService';
+import { ReferenceSource, getReferenceTtsText } from '../services/referenceAudio';
 
 interface PracticeCardProps {
   item: PracticeItem;
   level: PracticeLevel;
+  accent: Accent;
   isRecording: boolean;
+  inputLevel: number | null; // Microphone level from 0 to 1 while recording, if measured
   isLoading: boolean;
   loadingMessage: string;
   score: EvaluationResult | null;
+  scoredRecording: RecordingResult | null;
+  recordingQuality: RecordingQuality | null; // Preflight result of the last take
+  onCalibrate?: () => void;
   error: string | null;
   allItems: PracticeItem[];
   currentIndex: number;
@@ -24,10 +36,15 @@ interface PracticeCardProps {
 export const PracticeCard: React.FC<PracticeCardProps> = ({
   item,
   level,
+  accent,
   isRecording,
+  inputLevel,
   isLoading,
   loadingMessage,
   score,
+  scoredRecording,
+  recordingQuality,
+  onCalibrate,
   error,
   allItems,
   currentIndex,
@@ -40,9 +57,18 @@ export const PracticeCard: React.FC<PracticeCardProps> = ({
   const [isPlayingRef, setIsPlayingRef] = useState(false);
   const [isFetchingRefAudio, setIsFetchingRefAudio] = useState(false);
   const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const [refSource, setRefSource] = useState<ReferenceSource>('isolated');
+  const [playbackSpeed, setPlaybackSpeed] = useState<PlaybackSpeed>(1);
   const refAudioRef = useRef<HTMLAudioElement | null>(null);
+  const [isPlayingOwn, setIsPlayingOwn] = useState(false);
+  const [abSide, setAbSide] = useState<'mine' | 'reference' | null>(null);
+  const ownAudioRef = useRef<HTMLAudioElement | null>(null);
+  const { playSegment, error: segmentError } = useSegmentPlayer(scoredRecording, item, refSource, accent);
 
-  // When the practice item changes, stop any currently playing audio.
+  // Only phonemes ship with both a studio recording and an example word to choose between.
+  const canChooseRefSource = !!item.refAudioUrl && !!item.exampleWord;
+
+  // When the practice item, reference source, speed or accent changes, stop any currently playing audio.
   useEffect(() => {
     setPlaybackError(null);
     if (refAudioRef.current) {
@@ -50,56 +76,130 @@ export const PracticeCard: React.FC<PracticeCardProps> = ({
       refAudioRef.current = null;
     }
     setIsPlayingRef(false);
-  }, [item]);
+  }, [item, refSource, playbackSpeed, accent]);
 
-  const handlePlayReferenceAudio = async () => {
-    setPlaybackError(null);
+  // Drop the player for the previous take; PronunciationCoach revokes its object URL.
+  useEffect(() => {
+    if (ownAudioRef.current) {
+      ownAudioRef.current.pause();
+      ownAudioRef.current = null;
+    }
+    setIsPlayingOwn(false);
+    setAbSide(null);
+  }, [scoredRecording]);
 
-    // If audio is currently playing, pause it.
-    if (isPlayingRef && refAudioRef.current) {
-      refAudioRef.current.pause();
+  // Never play anything back over the microphone.
+  useEffect(() => {
+    if (isRecording) {
+      ownAudioRef.current?.pause();
+      refAudioRef.current?.pause();
+    }
+  }, [isRecording]);
+
+  const getOwnAudio = (): HTMLAudioElement | null => {
+    if (!scoredRecording) return null;
+    if (!ownAudioRef.current) {
+      const audio = new Audio(scoredRecording.url);
+      audio.onplaying = () => setIsPlayingOwn(true);
+      audio.onpause = () => setIsPlayingOwn(false);
+      audio.onended = () => {
+        setIsPlayingOwn(false);
+        audio.currentTime = 0;
+      };
+      audio.onerror = () => {
+        setIsPlayingOwn(false);
+        setPlaybackError('无法播放您的录音。');
+      };
+      ownAudioRef.current = audio;
+    }
+    return ownAudioRef.current;
+  };
+
+  const playOwnFromStart = () => {
+    const audio = getOwnAudio();
+    if (!audio) return;
+    refAudioRef.current?.pause();
+    audio.currentTime = 0;
+    audio.play().catch(() => setPlaybackError('音频播放失败。'));
+  };
+
+  const handlePlayOwnRecording = () => {
+    setPlaybackError(null);
+    const audio = getOwnAudio();
+    if (!audio) return;
+    if (isPlayingOwn) {
+      audio.pause();
       return;
     }
+    refAudioRef.current?.pause();
+    setAbSide('mine');
+    audio.play().catch(() => setPlaybackError('音频播放失败。'));
+  };
 
-    // If we have an audio element paused, resume it.
-    if (!isPlayingRef && refAudioRef.current) {
-      refAudioRef.current.play().catch(e => {
-        console.error("Audio resume failed.", e);
-        setPlaybackError('音频播放失败。');
-      });
+  // Alternates between my take and the reference, each from the start.
+  const handleAbSwitch = () => {
+    setPlaybackError(null);
+    const next = abSide === 'mine' ? 'reference' : 'mine';
+    setAbSide(next);
+    if (next === 'mine') {
+      playOwnFromStart();
       return;
     }
 
-    // If no audio element, fetch and create a new one.
+    ownAudioRef.current?.pause();
+    if (refAudioRef.current) {
+      refAudioRef.current.currentTime = 0;
+      refAudioRef.current.play().catch(() => setPlaybackError('音频播放失败。'));
+    } else {
+      handlePlayReferenceAudio();
+    }
+  };
+
+  const playReferenceSrc = (src: string, onLoadError: () => void, rate: number = 1) => {
+    const audio = new Audio(src);
+    refAudioRef.current = audio;
+    // Slow the recording down without dropping its pitch.
+    audio.preservesPitch = true;
+    audio.playbackRate = rate;
+
+    audio.onplaying = () => setIsPlayingRef(true);
+    audio.onpause = () => setIsPlayingRef(false);
+    audio.onended = () => {
+      setIsPlayingRef(false);
+      if (refAudioRef.current) {
+        refAudioRef.current.currentTime = 0;
+      }
+    };
+    audio.onerror = () => {
+      setIsPlayingRef(false);
+      onLoadError();
+    };
+
+    audio.play().catch(() => {
+      // A source that fails to load is reported through `onerror` instead.
+      if (!audio.error) {
+        setPlaybackError('音频播放失败。');
+      }
+      setIsPlayingRef(false);
+    });
+  };
+
+  const playTtsReference = async () => {
     setIsFetchingRefAudio(true);
     try {
-      const textToSpeak = item.speakableText || item.exampleWord || item.text;
+      const textToSpeak = getReferenceTtsText(item, refSource);
       if (!textToSpeak) {
         throw new Error('此项目没有可供朗读的文本。');
       }
 
-      const audioBase64 = await getTtsAudio(textToSpeak);
-      const audio = new Audio(`data:audio/mpeg;base64,${audioBase64}`);
-      refAudioRef.current = audio;
-
-      audio.onplaying = () => setIsPlayingRef(true);
-      audio.onpause = () => setIsPlayingRef(false);
-      audio.onended = () => {
-        setIsPlayingRef(false);
-        if (refAudioRef.current) {
-          refAudioRef.current.currentTime = 0;
-        }
-      };
-      audio.onerror = () => {
+      // TTS is synthesized at the chosen speed, which sounds more natural than slowed-down playback.
+      const audioBase64 = await getTtsAudio(textToSpeak, {
+        voice: ACCENT_TTS_VOICES[accent],
+        ...(playbackSpeed === 1 ? {} : { speed: playbackSpeed }),
+      });
+      playReferenceSrc(`data:audio/mpeg;base64,${audioBase64}`, () => {
         setPlaybackError('无法播放示范音频。');
-        setIsPlayingRef(false);
-      };
-
-      audio.play().catch(() => {
-        setPlaybackError('音频播放失败。');
-        setIsPlayingRef(false);
       });
-
     } catch (error: any) {
       console.error("Failed to fetch/play TTS audio:", error);
       setPlaybackError(error.message || '获取示范音频失败。');
@@ -108,6 +208,39 @@ export const PracticeCard: React.FC<PracticeCardProps> = ({
     }
   };
 
+  const handlePlayReferenceAudio = async () => {
+    setPlaybackError(null);
+    ownAudioRef.current?.pause();
+
+    // If audio is currently playing, pause it.
+    if (isPlayingRef && refAudioRef.current) {
+      refAudioRef.current.pause();
+      return;
+    }
+
+    // If we have an audio element paused, resume it.
+    if (!isPlayingRef && refAudioRef.current) {
+      refAudioRef.current.play().catch(e => {
+        console.error("Audio resume failed.", e);
+        setPlaybackError('音频播放失败。');
+      });
+      return;
+    }
+
+    // Prefer the bundled studio recording of the isolated sound; it needs no API call.
+    // TTS is only used for example words or when the recording is missing.
+    if (refSource === 'isolated' && item.refAudioUrl) {
+      playReferenceSrc(item.refAudioUrl, () => {
+        console.warn(`Reference recording ${item.refAudioUrl} could not be loaded. Falling back to TTS.`);
+        refAudioRef.current = null;
+        playTtsReference();
+      }, playbackSpeed);
+      return;
+    }
+
+    await playTtsReference();
+  };
+
 
   return (
     <div className="max-w-2xl mx-auto">
@@ -117,24 +250,24 @@ export const PracticeCard: React.FC<PracticeCardProps> = ({
           onClick={onBack}
           className="px-3 py-1 text-sm font-medium text-orange-600 dark:text-orange-400 border border-orange-600 dark:border-orange-400 rounded-md hover:bg-orange-50 dark:hover:bg-gray-700 transition-colors"
         >
-          &larr; 返回音标关卡
+          &larr; 返回{levelConfig[level].title}关卡
         </button>
       </div>
 
-      {level === PracticeLevel.Phonemes && (
+      {allItems.length > 1 && (
         <div className="flex flex-wrap gap-2 mb-6">
-          {allItems.map((phonemeItem, index) => (
+          {allItems.map((practiceItem, index) => (
             <button
               key={index}
               onClick={() => onSelectItem(index)}
-              className={`px-4 py-2 text-lg font-mono rounded-md transition-colors
+              className={`px-4 py-2 text-lg rounded-md transition-colors ${level === PracticeLevel.Phonemes ? 'font-mono' : ''}
                 ${currentIndex === index
                   ? 'bg-orange-500 text-white shadow'
                   : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'
                 }
               `}
             >
-              {phonemeItem.text}
+              {practiceItem.text}
             </button>
           ))}
         </div>
@@ -158,14 +291,52 @@ export const PracticeCard: React.FC<PracticeCardProps> = ({
         </div>
         
         <div className="mt-8 flex justify-center items-center gap-12">
-            <button
-                onClick={handlePlayReferenceAudio}
-                disabled={isRecording || isFetchingRefAudio}
-                className="flex items-center gap-2 text-lg font-semibold text-gray-600 dark:text-gray-300 hover:text-orange-500 dark:hover:text-orange-400 transition-colors disabled:opacity-50"
-            >
-                {isFetchingRefAudio ? <LoadingIcon className="w-6 h-6" /> : <SpeakerIcon className="w-6 h-6"/>}
-                <span>{isPlayingRef ? '暂停' : isFetchingRefAudio ? '加载中...' : '听示范'}</span>
-            </button>
+            <div className="flex flex-col items-center gap-2">
+                <button
+                    onClick={handlePlayReferenceAudio}
+                    disabled={isRecording || isFetchingRefAudio}
+                    className="flex items-center gap-2 text-lg font-semibold text-gray-600 dark:text-gray-300 hover:text-orange-500 dark:hover:text-orange-400 transition-colors disabled:opacity-50"
+                >
+                    {isFetchingRefAudio ? <LoadingIcon className="w-6 h-6" /> : <SpeakerIcon className="w-6 h-6"/>}
+                    <span>{isPlayingRef ? '暂停' : isFetchingRefAudio ? '加载中...' : '听示范'}</span>
+                </button>
+                {canChooseRefSource && (
+                    <div className="flex rounded-md border border-orange-300 dark:border-gray-600 overflow-hidden text-sm">
+                        {(['isolated', 'example'] as ReferenceSource[]).map((source) => (
+                            <button
+                                key={source}
+                                onClick={() => setRefSource(source)}
+                                disabled={isRecording || isFetchingRefAudio}
+                                className={`px-3 py-1 transition-colors disabled:opacity-50
+                                    ${refSource === source
+                                        ? 'bg-orange-500 text-white'
+                                        : 'text-gray-600 dark:text-gray-300 hover:bg-orange-50 dark:hover:bg-gray-700'
+                                    }
+                                `}
+                            >
+                                {source === 'isolated' ? '单音' : '例词'}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <div className="flex rounded-md border border-orange-300 dark:border-gray-600 overflow-hidden text-sm" aria-label="示范语速">
+                    {PLAYBACK_SPEEDS.map((speed) => (
+                        <button
+                            key={speed}
+                            onClick={() => setPlaybackSpeed(speed)}
+                            disabled={isRecording || isFetchingRefAudio}
+                            className={`px-3 py-1 transition-colors disabled:opacity-50
+                                ${playbackSpeed === speed
+                                    ? 'bg-orange-500 text-white'
+                                    : 'text-gray-600 dark:text-gray-300 hover:bg-orange-50 dark:hover:bg-gray-700'
+                                }
+                            `}
+                        >
+                            {speed}×
+                        </button>
+                    ))}
+                </div>
+            </div>
             <button
                 onClick={isRecording ? onStopRecording : onStartRecording}
                 disabled={isLoading}
@@ -177,6 +348,39 @@ export const PracticeCard: React.FC<PracticeCardProps> = ({
             </button>
         </div>
 
+        {isRecording && inputLevel !== null && (
+            <div className="mt-4 flex flex-col items-center gap-1">
+                <div className="w-48 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden" role="meter" aria-label="输入音量" aria-valuemin={0} aria-valuemax={1} aria-valuenow={inputLevel}>
+                    <div
+                        className="h-full bg-green-500 transition-all duration-100"
+                        style={{ width: `${Math.round(inputLevel * 100)}%` }}
+                    />
+                </div>
+                {VAD_CONFIG.autoStopSilenceMs !== null && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">读完后稍作停顿，录音会自动结束</p>
+                )}
+            </div>
+        )}
+
+        {scoredRecording && !isRecording && !isLoading && (
+            <div className="mt-6 flex justify-center items-center gap-6">
+                <button
+                    onClick={handlePlayOwnRecording}
+                    className="flex items-center gap-2 font-semibold text-gray-600 dark:text-gray-300 hover:text-orange-500 dark:hover:text-orange-400 transition-colors"
+                >
+                    {isPlayingOwn ? <StopIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+                    <span>{isPlayingOwn ? '暂停' : '听我的录音'}</span>
+                </button>
+                <button
+                    onClick={handleAbSwitch}
+                    disabled={isFetchingRefAudio}
+                    className="px-3 py-1 text-sm font-medium text-orange-600 dark:text-orange-400 border border-orange-600 dark:border-orange-400 rounded-md hover:bg-orange-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                    A/B 切换{abSide && ` · 当前: ${abSide === 'mine' ? '我的' : '示范'}`}
+                </button>
+            </div>
+        )}
+
         {playbackError && (
             <div className="text-center mt-4 text-sm text-red-600 dark:text-red-400">
                 <p>{playbackError}</p>
@@ -190,13 +394,31 @@ export const PracticeCard: React.FC<PracticeCardProps> = ({
             </div>
         )}
         
+        {recordingQuality && !isRecording && !isLoading && (
+            <RecordingQualityNotice quality={recordingQuality} onCalibrate={onCalibrate} />
+        )}
+
         {error && !isLoading && (
             <div className="my-4 p-4 bg-red-50 dark:bg-red-900/50 rounded-lg border border-red-200 dark:border-red-700 text-center">
                 <p className="text-red-600 dark:text-red-300">{error}</p>
             </div>
         )}
 
-        {score && !isLoading && !error && !playbackError && <ScoreDisplay result={score} />}
+        {score && !isLoading && !error && !playbackError && (
+            <>
+                <ScoreDisplay
+                    result={score}
+                    accent={accent}
+                    onPlaySegment={scoredRecording ? (span, source) => {
+                        ownAudioRef.current?.pause();
+                        refAudioRef.current?.pause();
+                        playSegment(span, source);
+                    } : undefined}
+                />
+                {segmentError && <p className="text-center text-sm text-red-500">{segmentError}</p>}
+                {scoredRecording && <AudioComparison recording={scoredRecording} item={item} refSource={refSource} accent={accent} />}
+            </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Accent, PracticeAttempt } from '../types';
+import { practiceHistory } from '../services/practiceHistoryService';
+import { toPlayableBlob } from '../services/audioUtils';
+import { PlayIcon, StopIcon, LoadingIcon } from './Icons';
+
+interface PracticeHistoryProps {
+  userId: string;
+  itemKey: string;
+  accent: Accent; // "All" lists this track's attempts only
+  itemLabel: string;
+  refreshToken: number; // Changes whenever a new attempt has been saved
+}
+
+type HistoryScope = 'item' | 'all';
+
+const HISTORY_LIMIT = 50;
+const TREND_WINDOW = 5;
+
+const getScoreColor = (score: number) => {
+  if (score >= 85) return 'text-green-500';
+  if (score >= 60) return 'text-yellow-500';
+  return 'text-red-500';
+};
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Compares the latest few attempts with the few before them.
+ * Returns null until there are enough attempts to compare.
+ */
+const getTrend = (attempts: PracticeAttempt[]): number | null => {
+  if (attempts.length < TREND_WINDOW * 2) return null;
+  const scores = attempts.map(a => a.result.overall); // newest first
+  return average(scores.slice(0, TREND_WINDOW)) - average(scores.slice(TREND_WINDOW, TREND_WINDOW * 2));
+};
+
+export const PracticeHistory: React.FC<PracticeHistoryProps> = ({ userId, itemKey, accent, itemLabel, refreshToken }) => {
+  const [scope, setScope] = useState<HistoryScope>('item');
+  const [attempts, setAttempts] = useState<PracticeAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioUrlRef = useRef<string | null>(null);
+
+  const stopPlayback = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (audioUrlRef.current) {
+      URL.revokeObjectURL(audioUrlRef.current);
+      audioUrlRef.current = null;
+    }
+    setPlayingId(null);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    practiceHistory
+      .listAttempts(userId, { itemKey: scope === 'item' ? itemKey : undefined, accent, limit: HISTORY_LIMIT })
+      .then(result => { if (!cancelled) setAttempts(result); })
+      .catch(err => {
+        console.error('Failed to load practice history:', err);
+        if (!cancelled) setError(err.message || '无法加载练习记录。');
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [userId, itemKey, accent, scope, refreshToken]);
+
+  // Release the playing recording when switching items or leaving the page.
+  useEffect(() => stopPlayback, [itemKey]);
+
+  const handlePlay = async (attempt: PracticeAttempt) => {
+    const wasPlaying = playingId === attempt.id;
+    stopPlayback();
+    if (wasPlaying || !attempt.recording || !attempt.recordingMimeType) return;
+
+    try {
+      const playable = await toPlayableBlob(attempt.recording, attempt.recordingMimeType);
+      const url = URL.createObjectURL(playable);
+      const audio = new Audio(url);
+      audioRef.current = audio;
+      audioUrlRef.current = url;
+      audio.onended = stopPlayback;
+      audio.onerror = () => {
+        stopPlayback();
+        setError('无法播放这条录音。');
+      };
+      setPlayingId(attempt.id);
+      await audio.play();
+    } catch (err) {
+      console.error('Failed to play recording:', err);
+      stopPlayback();
+      setError('无法播放这条录音。');
+    }
+  };
+
+  const trend = getTrend(attempts);
+  const best = attempts.length > 0 ? Math.max(...attempts.map(a => a.result.overall)) : null;
+
+  return (
+    <div className="max-w-2xl mx-auto mt-6 bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">练习记录</h3>
+        <div className="flex rounded-md border border-orange-300 dark:border-gray-600 overflow-hidden text-sm">
+          {(['item', 'all'] as HistoryScope[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setScope(option)}
+              className={`px-3 py-1 transition-colors
+                ${scope === option
+                  ? 'bg-orange-500 text-white'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-orange-50 dark:hover:bg-gray-700'
+                }
+              `}
+            >
+              {option === 'item' ? itemLabel : '全部'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {attempts.length > 0 && (
+        <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">练习次数</p>
+            <p className="text-xl font-bold text-gray-800 dark:text-gray-200">{attempts.length}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">最高分</p>
+            <p className={`text-xl font-bold ${getScoreColor(best!)}`}>{Math.round(best!)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">近{TREND_WINDOW}次趋势</p>
+            <p className={`text-xl font-bold ${trend === null ? 'text-gray-400' : trend >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {trend === null ? '—' : `${trend >= 0 ? '+' : ''}${trend.toFixed(1)}`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4"><LoadingIcon className="w-6 h-6 text-orange-500" /></div>
+      ) : error ? (
+        <p className="text-center text-sm text-red-500">{error}</p>
+      ) : attempts.length === 0 ? (
+        <p className="text-center text-gray-500 dark:text-gray-400 py-4">还没有练习记录，录一段试试吧。</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-80 overflow-y-auto">
+          {attempts.map((attempt) => (
+            <li key={attempt.id} className="flex items-center gap-3 py-2">
+              <button
+                onClick={() => handlePlay(attempt)}
+                disabled={!attempt.recording}
+                className="p-1 text-gray-500 hover:text-orange-500 dark:text-gray-400 dark:hover:text-orange-400 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                aria-label={!attempt.recording ? '录音已丢失' : playingId === attempt.id ? '停止播放' : '播放录音'}
+              >
+                {playingId === attempt.id ? <StopIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                {scope === 'all' && (
+                  <p className="font-medium text-gray-800 dark:text-gray-200 truncate">{attempt.item.text}</p>
+                )}
+                <p className="text-sm text-gray-500 dark:text-gray-400">{new Date(attempt.timestamp).toLocaleString()}</p>
+              </div>
+              <span className={`text-lg font-bold ${getScoreColor(attempt.result.overall)}`}>{Math.round(attempt.result.overall)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,133 +1,419 @@
-import React, { useState, useEffect } from 'react';
-import { PracticeLevel, PracticeItem, EvaluationResult, PhonemeSuperCategory } from '../types';
-import { PRACTICE_DATA } from '../constants';
-import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Accent, PracticeLevel, PracticeItem, EvaluationResult, PhonemeSuperCategory, PracticeAttemptSummary, PracticeData, ReviewCard, QuotaStatus, RecordingQuality, MicCalibration as MicCalibrationResult } from '../types';
+import { ACCENT_LABELS, PRACTICE_DATA_BY_ACCENT, MASTERY_CONFIG, REVIEW_CONFIG } from '../constants';
+import { useAudioRecorder, RecordingResult } from '../hooks/useAudioRecorder';
+import { useToday } from '../hooks/useToday';
 import * as xunfeiService from '../services/xunfeiService';
+import { EvaluationStream, isEvaluationStreamSupported, openEvaluationStream, STREAM_UNAVAILABLE } from '../services/evaluationStream';
+import { practiceHistory, getItemKey, getHistoryUserId } from '../services/practiceHistoryService';
+import { countPasses, getPhonemeCategoryProgress, getLevelProgress } from '../services/masteryService';
+import { buildReviewCards, getDailyQueue } from '../services/reviewScheduler';
+import { getCategoryPath, getLevelPath, PRACTICE_PATH, resolvePracticeSlug } from '../services/practiceRoutes';
+import { getAccent, saveAccent } from '../services/accentService';
+import { getMicCalibration, saveMicCalibration } from '../services/micCalibration';
+import { isPcmCaptureSupported } from '../services/pcmCapture';
+import { isSubmittable } from '../services/recordingQuality';
 
-import { PhonemePath } from './LevelPath';
+import { PhonemePath, LevelPicker, ItemList, levelConfig } from './LevelPath';
 import { PracticeCard } from './PracticeCard';
-import { LoadingIcon } from './Icons';
+import { PracticeHistory } from './PracticeHistory';
+import { ReviewBanner } from './ReviewBanner';
+import { QuotaBanner } from './QuotaBanner';
+import { MicCalibration } from './MicCalibration';
+import { LoadingIcon, LockIcon } from './Icons';
 
-const phonemeData = PRACTICE_DATA[PracticeLevel.Phonemes] as PhonemeSuperCategory[];
+// Levels with at least one practice item; the rest are shown as "coming soon".
+const getAvailableLevels = (data: PracticeData): PracticeLevel[] =>
+  (Object.values(PracticeLevel) as PracticeLevel[]).filter(level => data[level].length > 0);
 
-export const PronunciationCoach: React.FC = () => {
-  // 视图现在直接从音标关卡选择开始
-  const [view, setView] = useState<'phoneme_level' | 'practice'>('phoneme_level');
+const getLevelItems = (data: PracticeData, level: PracticeLevel): PracticeItem[] =>
+  level === PracticeLevel.Phonemes ? [] : data[level];
+
+interface PronunciationCoachProps {
+  practiceSlug: string | null; // The route segment after /practice: a category slug or level name
+  onNavigate: (path: string, options?: { replace?: boolean }) => void;
+  onActivate: () => void;
+  onLogout: () => void;
+}
+
+export const PronunciationCoach: React.FC<PronunciationCoachProps> = ({
+  practiceSlug,
+  onNavigate,
+  onActivate,
+  onLogout,
+}) => {
+  const [view, setView] = useState<'level_select' | 'practice'>('level_select');
+  const [level, setLevel] = useState<PracticeLevel>(PracticeLevel.Phonemes);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [practiceItems, setPracticeItems] = useState<PracticeItem[]>([]);
   const [currentItemIndex, setCurrentItemIndex] = useState(0);
+  // Set while a review session is running; its cards can come from any level.
+  const [reviewQueue, setReviewQueue] = useState<ReviewCard[] | null>(null);
 
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [score, setScore] = useState<EvaluationResult | null>(null);
+  // The recording behind `score`; only shown while a score is on screen.
+  const [scoredRecording, setScoredRecording] = useState<RecordingResult | null>(null);
+  // Preflight result of the last take, shown whether or not it was scored.
+  const [recordingQuality, setRecordingQuality] = useState<RecordingQuality | null>(null);
+  // The microphone check is offered once, on first use; it needs the PCM capture pipeline.
+  const [showCalibration, setShowCalibration] = useState(() => isPcmCaptureSupported() && getMicCalibration() === null);
   const [error, setError] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [allAttempts, setAllAttempts] = useState<PracticeAttemptSummary[]>([]);
+  // Locks cannot be told apart from missing history until the first load is done.
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
+  // Why the last deep link was turned away, shown on the level picker.
+  const [routeNotice, setRouteNotice] = useState<string | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [accent, setAccent] = useState<Accent>(getAccent);
+
+  const practiceData = PRACTICE_DATA_BY_ACCENT[accent];
+  const phonemeData = practiceData[PracticeLevel.Phonemes] as PhonemeSuperCategory[];
   
-  const { isRecording, startRecording, stopRecording } = useAudioRecorder();
+  const { isRecording, inputLevel, startRecording, stopRecording } = useAudioRecorder();
+  // Changes at midnight, so the review queue moves on to the new day's cards.
+  const today = useToday();
+  // Set while a recording is being streamed to the evaluator as it is spoken.
+  const evaluationStreamRef = useRef<EvaluationStream | null>(null);
+  // Auto-stop fires from inside the recorder, so it goes through the latest handler.
+  const stopHandlerRef = useRef<() => void>(() => {});
+
+  // Leaving mid-recording ends the session, which gives its quota back.
+  useEffect(() => () => evaluationStreamRef.current?.abort(), []);
 
+  // Mastery is derived from the full history, reloaded whenever an attempt is saved.
+  // Only the summaries are read; the recordings stay in storage.
   useEffect(() => {
-    // 效果现在只依赖于选择的分类
-    if (selectedCategory) {
-      const superCategory = phonemeData.find(sup => 
-        sup.categories.some(cat => cat.title === selectedCategory)
-      );
-      const category = superCategory?.categories.find(cat => cat.title === selectedCategory);
-      setPracticeItems(category?.items || []);
+    let cancelled = false;
+    practiceHistory.listAttemptSummaries(getHistoryUserId())
+      .then(attempts => { if (!cancelled) setAllAttempts(attempts); })
+      .catch(err => console.error('Failed to load practice history for mastery:', err))
+      .finally(() => { if (!cancelled) setIsHistoryLoaded(true); });
+    return () => { cancelled = true; };
+  }, [historyVersion]);
+
+  const refreshQuota = () => {
+    xunfeiService.getQuotaStatus()
+      .then(setQuota)
+      .catch(err => console.error('Failed to load evaluation quota:', err));
+  };
+
+  useEffect(refreshQuota, []);
+
+  const isOutOfQuota = quota?.remaining === 0;
+
+  // Release the previous recording's object URL whenever it is replaced or cleared.
+  useEffect(() => {
+    return () => {
+      if (scoredRecording) URL.revokeObjectURL(scoredRecording.url);
+    };
+  }, [scoredRecording]);
+
+  const clearScore = () => {
+    setScore(null);
+    setScoredRecording(null);
+    setRecordingQuality(null);
+  };
+
+  // Skipping counts too, so the check is not offered again.
+  const finishCalibration = (calibration: MicCalibrationResult) => {
+    saveMicCalibration(calibration);
+    setShowCalibration(false);
+  };
+
+  const { categoryProgress, levelProgress } = useMemo(() => {
+    const passes = countPasses(allAttempts, MASTERY_CONFIG);
+    return {
+      categoryProgress: getPhonemeCategoryProgress(phonemeData, passes, MASTERY_CONFIG, accent),
+      levelProgress: getLevelProgress(practiceData, passes, MASTERY_CONFIG, accent),
+    };
+  }, [allAttempts, practiceData, phonemeData, accent]);
+
+  // Only items of the current accent come up for review; the other track's RP or US
+  // phonemes would be scored against the wrong dictionary.
+  const dailyQueue = useMemo(() => {
+    const attempts = allAttempts.filter(attempt => attempt.accent === accent);
+    return getDailyQueue(buildReviewCards(attempts), Date.now(), REVIEW_CONFIG.dailyLimit);
+  }, [allAttempts, accent, today]);
+
+  // The level of the item being practised; in review mode each card carries its own.
+  const itemLevel = reviewQueue?.[currentItemIndex]?.level ?? level;
+
+  // Read by the route effect, which must not re-run (and reset the view) every time
+  // a saved attempt changes the progress.
+  const progressRef = useRef({ categoryProgress, levelProgress });
+  progressRef.current = { categoryProgress, levelProgress };
+
+  // The route decides which level or phoneme category is open, so deep links and the
+  // browser's back button land in the right place. A link to a locked category or level
+  // is sent back to the phoneme path, the same as a click on its lock would do nothing.
+  useEffect(() => {
+    if (!isHistoryLoaded) return;
+    const target = resolvePracticeSlug(practiceSlug, accent);
+    const progress = target.kind === 'category'
+      ? progressRef.current.categoryProgress[target.category.title]
+      : progressRef.current.levelProgress[target.level];
+    if (progress?.isLocked) {
+      setRouteNotice(target.kind === 'category'
+        ? `「${target.category.title}」尚未解锁，请先完成前面的音标类别。`
+        : `「${levelConfig[target.level].title}」尚未解锁，请先完成上一级别。`);
+      onNavigate(PRACTICE_PATH, { replace: true });
+      return;
+    }
+    setError(null);
+    clearScore();
+    setReviewQueue(null);
+    if (target.kind === 'category') {
+      setLevel(PracticeLevel.Phonemes);
+      setSelectedCategory(target.category.title);
+      setPracticeItems(target.category.items);
       setCurrentItemIndex(0);
       setView('practice');
+    } else {
+      setLevel(target.level);
+      setSelectedCategory(null);
+      setPracticeItems([]);
+      setView('level_select');
     }
-  }, [selectedCategory]);
+  }, [practiceSlug, accent, isHistoryLoaded]);
+
+  const handleAccentChange = (newAccent: Accent) => {
+    if (newAccent === accent || isRecording || isLoading) return;
+    saveAccent(newAccent);
+    setAccent(newAccent);
+  };
   
-  const handleCategorySelect = (category: string) => {
+  const handleLevelSelect = (newLevel: PracticeLevel) => {
+    setRouteNotice(null);
+    onNavigate(getLevelPath(newLevel));
+  };
+
+  const handleLevelItemSelect = (index: number) => {
     setError(null);
-    setScore(null);
-    setSelectedCategory(category);
+    clearScore();
+    setPracticeItems(getLevelItems(practiceData, level));
+    setCurrentItemIndex(index);
+    setView('practice');
+  };
+
+  const handleStartReview = () => {
+    setError(null);
+    clearScore();
+    setSelectedCategory(null);
+    setReviewQueue(dailyQueue);
+    setPracticeItems(dailyQueue.map(card => card.item));
+    setCurrentItemIndex(0);
+    setView('practice');
+  };
+
+  const handleCategorySelect = (category: string) => {
+    setRouteNotice(null);
+    onNavigate(getCategoryPath(category));
   };
   
   const handleBack = () => {
-    // 简化的返回逻辑：从练习界面总是返回到音标选择界面
+    // 从练习界面返回到当前级别的选择界面
+    if (selectedCategory) {
+      onNavigate(PRACTICE_PATH);
+      return;
+    }
     if (view === 'practice') {
-      setView('phoneme_level');
+      setView('level_select');
       setPracticeItems([]);
       setSelectedCategory(null);
+      setReviewQueue(null);
     }
     setError(null);
-    setScore(null);
+    clearScore();
   };
 
   const handleSelectItem = (index: number) => {
     if (index >= 0 && index < practiceItems.length) {
       setError(null);
-      setScore(null);
+      clearScore();
       setCurrentItemIndex(index);
     }
   };
 
   const handleStartRecording = async () => {
-    // 游客限制检查已移除
+    // The server enforces the quota; this only saves recording a clip it would refuse.
+    if (isOutOfQuota) {
+      setError('今日免费测评次数已用完，开通会员即可继续练习。');
+      return;
+    }
     setError(null);
-    setScore(null);
+    clearScore();
+    const item = practiceItems[currentItemIndex];
+    // The stream opens with the first speech, so a silent take never uses up an evaluation.
+    const streamSpeech = (pcm: Int16Array<ArrayBuffer>) => {
+      evaluationStreamRef.current ??= openEvaluationStream(item, itemLevel, accent);
+      evaluationStreamRef.current.sendAudio(pcm);
+    };
     try {
-      await startRecording();
+      await startRecording({
+        onPcmChunk: isEvaluationStreamSupported() ? streamSpeech : undefined,
+        onSilence: () => stopHandlerRef.current(),
+      });
     } catch (err) {
+      evaluationStreamRef.current?.abort();
+      evaluationStreamRef.current = null;
       console.error(err);
       setError('无法访问麦克风。请检查浏览器权限。');
     }
   };
 
+  // Takes the streamed score if there is one; otherwise, or if the stream never got
+  // through, uploads the whole recording.
+  const scoreRecording = async (audioData: RecordingResult, item: PracticeItem) => {
+    const stream = evaluationStreamRef.current;
+    if (stream) {
+      try {
+        return await stream.finish();
+      } catch (err: any) {
+        if (err.code !== STREAM_UNAVAILABLE) throw err;
+        console.warn('Streaming evaluation unavailable, uploading the recording instead:', err);
+      }
+    }
+    return xunfeiService.getPronunciationScore(audioData.base64, audioData.mimeType, item, itemLevel, accent);
+  };
+
   const handleStopRecording = async () => {
+    if (!isRecording || isLoading) return; // Auto-stop and a click can race
     setIsLoading(true);
     setLoadingMessage('正在处理您的录音...');
+    let audioData: RecordingResult | null = null;
     try {
-      const audioData = await stopRecording();
+      audioData = await stopRecording();
+      setRecordingQuality(audioData.quality);
+      if (!isSubmittable(audioData.quality)) {
+        // The notice explains why; nothing is spent on a take that cannot score well.
+        evaluationStreamRef.current?.abort();
+        URL.revokeObjectURL(audioData.url);
+        return;
+      }
       
       setLoadingMessage('专业 AI 引擎正在分析您的发音...');
       const currentItem = practiceItems[currentItemIndex];
-      const result = await xunfeiService.getPronunciationScore(
-        audioData.base64,
-        audioData.mimeType,
-        currentItem,
-        PracticeLevel.Phonemes // 硬编码为音标练习
-      );
+      const result = await scoreRecording(audioData, currentItem);
       setScore(result);
+      setScoredRecording(audioData);
       setError(null); // Clear previous errors on success
+
+      // Saving history must never hide the score, so failures are only logged.
+      practiceHistory.saveAttempt({
+        userId: getHistoryUserId(),
+        itemKey: getItemKey(accent, itemLevel, currentItem),
+        accent,
+        level: itemLevel,
+        item: currentItem,
+        result,
+        recording: audioData.blob,
+        recordingMimeType: audioData.mimeType,
+      })
+        .then(() => setHistoryVersion(v => v + 1))
+        .catch(err => console.error('Failed to save practice attempt:', err));
     } catch (err: any) {
-      setError(err.message || '评分时发生错误。');
-      setScore(null); // Clear previous scores on error
+      if (err.code === xunfeiService.QUOTA_EXCEEDED) {
+        // The banner turns into the upgrade prompt instead of showing an error.
+        setQuota(err.quota ?? null);
+        setError(null);
+      } else {
+        setError(err.message || '评分时发生错误。');
+      }
+      clearScore(); // Clear previous scores on error
+      setRecordingQuality(audioData?.quality ?? null); // Still worth knowing why a take went wrong
+      evaluationStreamRef.current?.abort();
+      // An unscored recording is never shown, so release it right away.
+      if (audioData) URL.revokeObjectURL(audioData.url);
     } finally {
+      evaluationStreamRef.current = null;
       setIsLoading(false);
       setLoadingMessage('');
     }
+    if (quota && quota.remaining !== null) refreshQuota();
   };
+  stopHandlerRef.current = handleStopRecording;
 
   const currentItem = practiceItems[currentItemIndex];
   
   const renderContent = () => {
-    // 'level' 视图已移除，直接从音标选择开始
-    if (view === 'phoneme_level') {
-        return <PhonemePath 
-            phonemeData={phonemeData}
-            onSelectCategory={handleCategorySelect}
-        />
+    if (!isHistoryLoaded) {
+        return <div className="flex justify-center items-center h-64"><LoadingIcon className="w-10 h-10 text-orange-500" /></div>;
+    }
+
+    if (view === 'level_select') {
+        return (
+            <>
+                {routeNotice && (
+                    <div className="w-full max-w-md mx-auto mb-4 p-4 bg-orange-50 dark:bg-gray-800 border border-orange-300 dark:border-orange-700 rounded-lg flex items-center gap-4">
+                        <LockIcon className="w-6 h-6 text-orange-500 shrink-0" />
+                        <p className="text-sm text-gray-600 dark:text-gray-300">{routeNotice}</p>
+                    </div>
+                )}
+                <LevelPicker
+                    selectedLevel={level}
+                    availableLevels={getAvailableLevels(practiceData)}
+                    levelProgress={levelProgress}
+                    onSelectLevel={handleLevelSelect}
+                />
+                <ReviewBanner dueCards={dailyQueue} onStartReview={handleStartReview} />
+                {level === PracticeLevel.Phonemes ? (
+                    <PhonemePath 
+                        phonemeData={phonemeData}
+                        categoryProgress={categoryProgress}
+                        onSelectCategory={handleCategorySelect}
+                    />
+                ) : (
+                    <ItemList
+                        title={`${levelConfig[level].title}练习`}
+                        items={getLevelItems(practiceData, level)}
+                        onSelectItem={handleLevelItemSelect}
+                    />
+                )}
+            </>
+        );
     }
 
     if (view === 'practice' && currentItem) {
       return (
-        <PracticeCard
-          item={currentItem}
-          level={PracticeLevel.Phonemes}
-          isRecording={isRecording}
-          isLoading={isLoading}
-          loadingMessage={loadingMessage}
-          score={score}
-          error={error}
-          allItems={practiceItems}
-          currentIndex={currentItemIndex}
-          onSelectItem={handleSelectItem}
-          categoryTitle={selectedCategory || ''}
-          onStartRecording={handleStartRecording}
-          onStopRecording={handleStopRecording}
-          onBack={handleBack}
-        />
+        <>
+          {showCalibration && !isRecording && (
+            <MicCalibration
+              onDone={finishCalibration}
+              onSkip={() => finishCalibration({ calibratedAt: Date.now(), noiseDb: null })}
+            />
+          )}
+          <PracticeCard
+            item={currentItem}
+            level={itemLevel}
+            accent={accent}
+            isRecording={isRecording}
+            inputLevel={inputLevel}
+            isLoading={isLoading}
+            loadingMessage={loadingMessage}
+            score={score}
+            scoredRecording={scoredRecording}
+            recordingQuality={recordingQuality}
+            onCalibrate={isPcmCaptureSupported() ? () => setShowCalibration(true) : undefined}
+            error={error}
+            allItems={practiceItems}
+            currentIndex={currentItemIndex}
+            onSelectItem={handleSelectItem}
+            categoryTitle={reviewQueue ? '今日复习' : selectedCategory || `${levelConfig[level].title}练习`}
+            onStartRecording={handleStartRecording}
+            onStopRecording={handleStopRecording}
+            onBack={handleBack}
+          />
+          <PracticeHistory
+            userId={getHistoryUserId()}
+            itemKey={getItemKey(accent, itemLevel, currentItem)}
+            accent={accent}
+            itemLabel={currentItem.text}
+            refreshToken={historyVersion}
+          />
+        </>
       );
     }
     
@@ -136,10 +422,34 @@ export const PronunciationCoach: React.FC = () => {
   
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200">
-        <header className="p-4 flex justify-center items-center bg-white dark:bg-gray-800/50 backdrop-blur-sm shadow-sm sticky top-0 z-10">
+        <header className="relative p-4 flex justify-center items-center bg-white dark:bg-gray-800/50 backdrop-blur-sm shadow-sm sticky top-0 z-10">
+            <div className="absolute left-4 flex rounded-md border border-orange-300 dark:border-gray-600 overflow-hidden text-sm" aria-label="口音">
+                {(Object.keys(ACCENT_LABELS) as Accent[]).map((option) => (
+                    <button
+                        key={option}
+                        onClick={() => handleAccentChange(option)}
+                        disabled={isRecording || isLoading}
+                        className={`px-3 py-1 transition-colors disabled:opacity-50
+                            ${accent === option
+                                ? 'bg-orange-500 text-white'
+                                : 'text-gray-600 dark:text-gray-300 hover:bg-orange-50 dark:hover:bg-gray-700'
+                            }
+                        `}
+                    >
+                        {ACCENT_LABELS[option]}
+                    </button>
+                ))}
+            </div>
             <h1 className="text-xl font-bold text-orange-600 dark:text-orange-400">音标发音练习</h1>
+            <button
+                onClick={onLogout}
+                className="absolute right-4 text-sm text-gray-500 hover:text-orange-600 dark:text-gray-400 dark:hover:text-orange-400"
+            >
+                退出登录
+            </button>
         </header>
         <main className="p-4">
+            <QuotaBanner quota={quota} onUpgrade={onActivate} />
             {renderContent()}
         </main>
     </div>
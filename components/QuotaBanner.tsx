@@ -0,0 +1,45 @@
+import React from 'react';
+import { QuotaStatus } from '../types';
+import { LockIcon } from './Icons';
+
+interface QuotaBannerProps {
+  quota: QuotaStatus | null;
+  onUpgrade: () => void;
+}
+
+/**
+ * Shows how many free evaluations are left today, and an upgrade prompt once they run out.
+ * Subscribers have no limit and see nothing.
+ */
+export const QuotaBanner: React.FC<QuotaBannerProps> = ({ quota, onUpgrade }) => {
+  if (!quota || quota.remaining === null || quota.limit === null) return null;
+
+  const resetTime = new Date(quota.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  if (quota.remaining === 0) {
+    return (
+      <div className="w-full max-w-md mx-auto mb-4 p-4 bg-orange-50 dark:bg-gray-800 border border-orange-300 dark:border-orange-700 rounded-lg flex items-center gap-4">
+        <LockIcon className="w-8 h-8 text-orange-500 shrink-0" />
+        <div className="flex-1">
+          <h3 className="font-bold text-gray-800 dark:text-gray-200">今日免费测评次数已用完</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{resetTime} 恢复；开通会员即可不限次数练习。</p>
+        </div>
+        <button
+          onClick={onUpgrade}
+          className="px-4 py-2 font-semibold bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors shrink-0"
+        >
+          激活会员
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-4 flex justify-between items-center text-sm text-gray-500 dark:text-gray-400">
+      <span>今日免费测评剩余 <strong className="text-orange-600 dark:text-orange-400">{quota.remaining}</strong> / {quota.limit} 次</span>
+      <button onClick={onUpgrade} className="text-orange-600 dark:text-orange-400 hover:underline">
+        激活会员，不限次数
+      </button>
+    </div>
+  );
+};
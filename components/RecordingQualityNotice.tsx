@@ -0,0 +1,31 @@
+import React from 'react';
+import { RecordingQuality } from '../types';
+import { RECORDING_ISSUE_ADVICE } from '../constants';
+
+interface RecordingQualityNoticeProps {
+  quality: RecordingQuality;
+  onCalibrate?: () => void;
+}
+
+/**
+ * Lists what the preflight check found wrong with the last take, so a low score is not
+ * mistaken for poor pronunciation. Shows nothing for a clean take.
+ */
+export const RecordingQualityNotice: React.FC<RecordingQualityNoticeProps> = ({ quality, onCalibrate }) => {
+  if (!quality.issues.length) return null;
+
+  return (
+    <div className="my-4 p-4 bg-yellow-50 dark:bg-yellow-900/30 rounded-lg border border-yellow-200 dark:border-yellow-700 text-sm">
+      <ul className="space-y-1 text-yellow-800 dark:text-yellow-200">
+        {quality.issues.map(issue => (
+          <li key={issue}>⚠ {RECORDING_ISSUE_ADVICE[issue]}</li>
+        ))}
+      </ul>
+      {onCalibrate && (
+        <button onClick={onCalibrate} className="mt-2 text-orange-600 dark:text-orange-400 hover:underline">
+          检测麦克风
+        </button>
+      )}
+    </div>
+  );
+};
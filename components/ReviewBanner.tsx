@@ -0,0 +1,46 @@
+import React from 'react';
+import { PracticeLevel, ReviewCard } from '../types';
+import { levelConfig } from './LevelPath';
+import { CheckCircleIcon } from './Icons';
+
+interface ReviewBannerProps {
+  dueCards: ReviewCard[];
+  onStartReview: () => void;
+}
+
+/**
+ * Home screen entry point for the spaced-repetition review session.
+ */
+export const ReviewBanner: React.FC<ReviewBannerProps> = ({ dueCards, onStartReview }) => {
+  const countsByLevel = dueCards.reduce((counts, card) => {
+    counts[card.level] = (counts[card.level] || 0) + 1;
+    return counts;
+  }, {} as { [level in PracticeLevel]?: number });
+
+  return (
+    <div className="w-full max-w-md mx-auto mt-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm flex items-center gap-4">
+      <div className="flex-1">
+        <h3 className="font-bold text-gray-800 dark:text-gray-200">今日复习</h3>
+        {dueCards.length > 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {(Object.keys(countsByLevel) as PracticeLevel[])
+              .map(level => `${levelConfig[level].title} ${countsByLevel[level]}`)
+              .join(' · ')}
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">今天没有需要复习的内容。</p>
+        )}
+      </div>
+      {dueCards.length > 0 ? (
+        <button
+          onClick={onStartReview}
+          className="px-4 py-2 font-semibold bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+        >
+          开始复习 ({dueCards.length})
+        </button>
+      ) : (
+        <CheckCircleIcon className="w-8 h-8 text-green-500" />
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,15 @@
-import React from 'react';
-import { EvaluationResult, PhonemeScore, WordScore } from '../types';
+import React, { useState } from 'react';
+import { Accent, EvaluationResult, PhonemeScore, WordScore } from '../types';
+import { toIpaLabel } from '../services/phonemeIpa';
+import { SegmentSource } from '../hooks/useSegmentPlayer';
+
+type Span = { start: number; end: number };
 
 interface ScoreDisplayProps {
   result: EvaluationResult;
+  accent: Accent; // Phonemes are labelled in this accent's notation
+  // When provided, word chips and phoneme tiles play their slice of the recording.
+  onPlaySegment?: (span: Span, source: SegmentSource) => void;
 }
 
 const getScoreColor = (score: number) => {
@@ -23,6 +30,16 @@ const getBgColor = (score: number) => {
     return 'bg-red-100 dark:bg-red-900/50 border-red-200 dark:border-red-700';
 }
 
+// Xunfei inserts 'sil' (silence) and 'fil' (filler) entries between spoken words.
+const isSpokenWord = (word: WordScore) => !!word.word && word.word !== 'sil' && word.word !== 'fil';
+
+const readTypeLabels: {[key: number]: string} = {
+    1: '多读',
+    2: '漏读',
+    3: '重复',
+    4: '误读',
+};
+
 const getFeedbackMessage = (score: number): string => {
     if (score >= 90) return "太棒了，发音非常标准！";
     if (score >= 80) return "非常好，继续保持！";
@@ -64,20 +81,55 @@ const DetailScore: React.FC<{ label: string; score: number }> = ({ label, score
     </div>
 );
 
-const PhonemeDisplay: React.FC<{ phoneme: PhonemeScore }> = ({ phoneme }) => {
-    // Convert phoneme symbol from CMU-like (e.g., "IY") to IPA-like (e.g., /iː/) for display if needed.
-    // For now, we'll display the returned phoneme symbol directly.
-    return (
-        <div className={`p-2 rounded-md text-center border ${getBgColor(phoneme.pronunciation)}`}>
-            <p className="font-mono text-lg text-gray-800 dark:text-gray-200">{phoneme.phoneme}</p>
+const PhonemeDisplay: React.FC<{ phoneme: PhonemeScore; accent: Accent; onPlay?: (span: Span) => void }> = ({ phoneme, accent, onPlay }) => {
+    const content = (
+        <>
+            <p className="font-mono text-lg text-gray-800 dark:text-gray-200">{toIpaLabel(phoneme.phoneme, accent)}</p>
             <p className={`font-bold text-sm ${getScoreColor(phoneme.pronunciation)}`}>{Math.round(phoneme.pronunciation)}</p>
-        </div>
-    )
+        </>
+    );
+    const className = `p-2 rounded-md text-center border ${getBgColor(phoneme.pronunciation)}`;
+
+    if (onPlay && phoneme.span) {
+        return (
+            <button onClick={() => onPlay(phoneme.span)} className={`${className} hover:ring-2 hover:ring-orange-400 transition`} title={phoneme.phoneme}>
+                {content}
+            </button>
+        );
+    }
+    return <div className={className} title={phoneme.phoneme}>{content}</div>;
 }
 
-export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ result }) => {
+const WordBreakdown: React.FC<{ word: WordScore; showHeader: boolean; accent: Accent; onPlay?: (span: Span) => void }> = ({ word, showHeader, accent, onPlay }) => {
+    const readTypeLabel = readTypeLabels[word.readType];
+    return (
+        <div>
+            {showHeader && (
+                <div className="flex items-center gap-2 mb-2">
+                    <span className="font-semibold text-gray-800 dark:text-gray-200">{word.word}</span>
+                    <span className={`font-bold text-sm ${getScoreColor(word.scores.overall)}`}>{Math.round(word.scores.overall)}</span>
+                    {readTypeLabel && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300">{readTypeLabel}</span>
+                    )}
+                </div>
+            )}
+            {word.phonemes && word.phonemes.length > 0 && (
+                <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
+                    {word.phonemes.map((p, index) => (
+                        <PhonemeDisplay key={index} phoneme={p} accent={accent} onPlay={onPlay} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ result, accent, onPlaySegment }) => {
   const { overall, pronunciation, integrity, fluency, words } = result;
-  const mainWord: WordScore | undefined = words?.[0];
+  const spokenWords: WordScore[] = (words || []).filter(isSpokenWord);
+  const isMultiWord = spokenWords.length > 1;
+  const [segmentSource, setSegmentSource] = useState<SegmentSource>('mine');
+  const playSpan = onPlaySegment ? (span: Span) => onPlaySegment(span, segmentSource) : undefined;
 
   return (
     <div className="my-4 p-4 space-y-4 bg-orange-50 dark:bg-gray-700/50 rounded-lg border border-orange-200 dark:border-gray-600">
@@ -97,13 +149,57 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ result }) => {
           <DetailScore label="流畅度" score={fluency} />
       </div>
 
+      {/* Segment Playback Source */}
+      {onPlaySegment && spokenWords.length > 0 && (
+          <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+            <span>点击单词或音素回放对应片段</span>
+            <div className="flex rounded-md border border-orange-300 dark:border-gray-600 overflow-hidden">
+                {(['mine', 'reference'] as SegmentSource[]).map((source) => (
+                    <button
+                        key={source}
+                        onClick={() => setSegmentSource(source)}
+                        className={`px-3 py-1 transition-colors
+                            ${segmentSource === source
+                                ? 'bg-orange-500 text-white'
+                                : 'hover:bg-orange-100 dark:hover:bg-gray-700'
+                            }
+                        `}
+                    >
+                        {source === 'mine' ? '我的录音' : '示范'}
+                    </button>
+                ))}
+            </div>
+          </div>
+      )}
+
+      {/* Word Overview (phrases and sentences) */}
+      {isMultiWord && (
+          <div>
+            <h4 className="font-semibold text-gray-800 dark:text-gray-200 mb-2">逐词得分:</h4>
+            <div className="flex flex-wrap gap-2">
+                {spokenWords.map((word, index) => (
+                    <button
+                        key={index}
+                        onClick={() => playSpan?.(word.span)}
+                        disabled={!playSpan || !word.span}
+                        className={`px-3 py-1 rounded-md border font-medium ${getBgColor(word.scores.overall)} enabled:hover:ring-2 enabled:hover:ring-orange-400 transition disabled:cursor-default`}
+                    >
+                        {word.word} <span className={`text-sm font-bold ${getScoreColor(word.scores.overall)}`}>{Math.round(word.scores.overall)}</span>
+                    </button>
+                ))}
+            </div>
+          </div>
+      )}
+
       {/* Phoneme Breakdown */}
-      {mainWord && mainWord.phonemes && (
+      {spokenWords.length > 0 && (
           <div>
-            <h4 className="font-semibold text-gray-800 dark:text-gray-200 mb-2">发音详情 ({mainWord.word}):</h4>
-             <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
-                {mainWord.phonemes.map((p, index) => (
-                    <PhonemeDisplay key={index} phoneme={p} />
+            <h4 className="font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                {isMultiWord ? '发音详情:' : `发音详情 (${spokenWords[0].word}):`}
+            </h4>
+            <div className="space-y-4">
+                {spokenWords.map((word, index) => (
+                    <WordBreakdown key={index} word={word} showHeader={isMultiWord} accent={accent} onPlay={playSpan} />
                 ))}
             </div>
           </div>
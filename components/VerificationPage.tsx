@@ -1,13 +1,16 @@
 import React, { useState } from 'react';
 import * as authService from '../services/authService';
+import { User } from '../types';
 import { LoadingIcon } from './Icons';
 
 interface VerificationPageProps {
-  userIdentifier: string;
-  onVerificationSuccess: () => void;
+  onVerificationSuccess: (user: User) => void;
 }
 
-export const VerificationPage: React.FC<VerificationPageProps> = ({ userIdentifier, onVerificationSuccess }) => {
+// Codes look like `30-XXXXXXXXXX-XXXXXXXXXXXX`: plan days, then two base32 groups.
+const CODE_PATTERN = /^\d{1,4}-[0-9A-Z]{10}-[0-9A-Z]{12}$/i;
+
+export const VerificationPage: React.FC<VerificationPageProps> = ({ onVerificationSuccess }) => {
   const [code, setCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -16,19 +19,15 @@ export const VerificationPage: React.FC<VerificationPageProps> = ({ userIdentifi
 
   const handleVerify = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!/^\d{3,4}$/.test(code)) {
-        setError('请输入有效的3位或4位激活码。');
+    if (!CODE_PATTERN.test(code)) {
+        setError('激活码格式不正确，请完整复制店主提供的激活码。');
         return;
     }
     setError(null);
     setIsLoading(true);
     try {
-      const success = await authService.verifyActivationCode(userIdentifier, code);
-      if (success) {
-        onVerificationSuccess();
-      } else {
-         setError('验证码无效或已被使用，请联系客服。');
-      }
+      const user = await authService.redeemActivationCode(code);
+      onVerificationSuccess(user);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -37,11 +36,8 @@ export const VerificationPage: React.FC<VerificationPageProps> = ({ userIdentifi
   };
 
   const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    // Only allow numbers and limit length
-    if (/^\d*$/.test(value) && value.length <= 4) {
-      setCode(value);
-    }
+    // Pasted codes often pick up stray whitespace.
+    setCode(e.target.value.replace(/\s+/g, '').toUpperCase());
   }
 
 
@@ -70,16 +66,18 @@ export const VerificationPage: React.FC<VerificationPageProps> = ({ userIdentifi
         
         <div className="bg-orange-50 dark:bg-gray-700/50 p-6 rounded-lg">
             <h2 className="text-xl font-semibold text-orange-800 dark:text-orange-300 mb-3 text-center">第二步：输入激活码</h2>
-            <p className="mb-4 text-center text-gray-700 dark:text-gray-300">支付成功后，店主将为您提供一个一次性的激活码（3位为月卡，4位为年卡），请在此处输入。</p>
+            <p className="mb-4 text-center text-gray-700 dark:text-gray-300">支付成功后，店主将为您提供一个一次性的激活码，开头的数字即套餐天数，请在此处输入。</p>
             <form onSubmit={handleVerify}>
               <input
-                type="tel"
+                type="text"
                 value={code}
                 onChange={handleCodeChange}
-                placeholder="请输入激活码"
-                maxLength={4}
+                placeholder="例如 30-XXXXXXXXXX-XXXXXXXXXXXX"
+                maxLength={32}
+                autoComplete="off"
+                spellCheck={false}
                 required
-                className="w-full px-4 py-3 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-orange-500 focus:border-orange-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white mb-4 text-center tracking-widest text-lg"
+                className="w-full px-4 py-3 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-orange-500 focus:border-orange-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white mb-4 text-center font-mono tracking-wider text-lg"
               />
               <button
                 type="submit"
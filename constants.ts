@@ -1,5 +1,51 @@
-import { PracticeData, PracticeLevel } from './types';
+import { Accent, ActivationPlan, MasteryConfig, PhonemeSuperCategory, PlaybackSpeed, PracticeData, PracticeLevel, RecordingIssue, RecordingQualityConfig, TtsVoice, VadConfig } from './types';
 
+// Consonants sound the same in both accents, so both tracks share them and their recordings.
+const CONSONANTS: PhonemeSuperCategory = {
+  title: 'Consonants (辅音)',
+  categories: [
+    {
+      title: 'Voiceless Consonants (清辅音)',
+      items: [
+        { text: '/p/', ipa: '/p/', exampleWord: 'pen', speakableText: 'pea', refAudioUrl: '/ipasounds/p.mp3' },
+        { text: '/t/', ipa: '/t/', exampleWord: 'tea', speakableText: 'tea', refAudioUrl: '/ipasounds/t.mp3' },
+        { text: '/k/', ipa: '/k/', exampleWord: 'cat', speakableText: 'key', refAudioUrl: '/ipasounds/k.mp3' },
+        { text: '/f/', ipa: '/f/', exampleWord: 'fan', speakableText: 'fee', refAudioUrl: '/ipasounds/f.mp3' },
+        { text: '/s/', ipa: '/s/', exampleWord: 'see', speakableText: 'sea', refAudioUrl: '/ipasounds/s.mp3' },
+        { text: '/ʃ/', ipa: '/ʃ/', exampleWord: 'she', speakableText: 'she', refAudioUrl: '/ipasounds/sh.mp3' },
+        { text: '/θ/', ipa: '/θ/', exampleWord: 'think', speakableText: 'thin', refAudioUrl: '/ipasounds/th-voiceless.mp3' },
+        { text: '/h/', ipa: '/h/', exampleWord: 'hot', speakableText: 'he', refAudioUrl: '/ipasounds/h.mp3' },
+        { text: '/tʃ/', ipa: '/tʃ/', exampleWord: 'chair', speakableText: 'chin', refAudioUrl: '/ipasounds/ch.mp3' },
+        { text: '/tr/', ipa: '/tr/', exampleWord: 'try', speakableText: 'try', refAudioUrl: '/ipasounds/tr.mp3' },
+        { text: '/ts/', ipa: '/ts/', exampleWord: 'cats', speakableText: 'cats', refAudioUrl: '/ipasounds/ts.mp3' },
+      ],
+    },
+    {
+      title: 'Voiced Consonants (浊辅音)',
+      items: [
+        { text: '/b/', ipa: '/b/', exampleWord: 'bad', speakableText: 'bee', refAudioUrl: '/ipasounds/b.mp3' },
+        { text: '/d/', ipa: '/d/', exampleWord: 'did', speakableText: 'day', refAudioUrl: '/ipasounds/d.mp3' },
+        { text: '/g/', ipa: '/g/', exampleWord: 'go', speakableText: 'go', refAudioUrl: '/ipasounds/g.mp3' },
+        { text: '/v/', ipa: '/v/', exampleWord: 'van', speakableText: 'vie', refAudioUrl: '/ipasounds/v.mp3' },
+        { text: '/z/', ipa: '/z/', exampleWord: 'zoo', speakableText: 'zoo', refAudioUrl: '/ipasounds/z.mp3' },
+        { text: '/ʒ/', ipa: '/ʒ/', exampleWord: 'vision', speakableText: 'Asia', refAudioUrl: '/ipasounds/zh.mp3' },
+        { text: '/ð/', ipa: '/ð/', exampleWord: 'this', speakableText: 'the', refAudioUrl: '/ipasounds/th-voiced.mp3' },
+        { text: '/r/', ipa: '/r/', exampleWord: 'red', speakableText: 'ray', refAudioUrl: '/ipasounds/r.mp3' },
+        { text: '/dʒ/', ipa: '/dʒ/', exampleWord: 'jam', speakableText: 'jay', refAudioUrl: '/ipasounds/dzh.mp3' },
+        { text: '/dr/', ipa: '/dr/', exampleWord: 'dry', speakableText: 'dry', refAudioUrl: '/ipasounds/dr.mp3' },
+        { text: '/dz/', ipa: '/dz/', exampleWord: 'beds', speakableText: 'beds', refAudioUrl: '/ipasounds/dz.mp3' },
+        { text: '/m/', ipa: '/m/', exampleWord: 'man', speakableText: 'me', refAudioUrl: '/ipasounds/m.mp3' },
+        { text: '/n/', ipa: '/n/', exampleWord: 'no', speakableText: 'knee', refAudioUrl: '/ipasounds/n.mp3' },
+        { text: '/ŋ/', ipa: '/ŋ/', exampleWord: 'sing', speakableText: 'sing', refAudioUrl: '/ipasounds/ng.mp3' },
+        { text: '/l/', ipa: '/l/', exampleWord: 'leg', speakableText: 'lee', refAudioUrl: '/ipasounds/l.mp3' },
+        { text: '/w/', ipa: '/w/', exampleWord: 'wet', speakableText: 'we', refAudioUrl: '/ipasounds/w.mp3' },
+        { text: '/j/', ipa: '/j/', exampleWord: 'yes', speakableText: 'yea', refAudioUrl: '/ipasounds/y.mp3' },
+      ],
+    },
+  ],
+};
+
+// British English (RP).
 export const PRACTICE_DATA: PracticeData = {
   [PracticeLevel.Phonemes]: [
     {
@@ -42,51 +88,246 @@ export const PRACTICE_DATA: PracticeData = {
         },
       ],
     },
+    CONSONANTS,
+  ],
+  [PracticeLevel.Words]: [
+    // Curated around the contrasts Chinese-speaking learners most often merge:
+    // /iː/-/ɪ/, /e/-/æ/, /θ/-/s/, /ð/-/z/, /v/-/w/, /l/-/r/, /n/-/ŋ/ and final consonants.
+    { text: 'sheep', ipa: '/ʃiːp/' },
+    { text: 'ship', ipa: '/ʃɪp/' },
+    { text: 'leave', ipa: '/liːv/' },
+    { text: 'live', ipa: '/lɪv/' },
+    { text: 'bed', ipa: '/bed/' },
+    { text: 'bad', ipa: '/bæd/' },
+    { text: 'cup', ipa: '/kʌp/' },
+    { text: 'heart', ipa: '/hɑːt/' },
+    { text: 'hot', ipa: '/hɒt/' },
+    { text: 'caught', ipa: '/kɔːt/' },
+    { text: 'full', ipa: '/fʊl/' },
+    { text: 'fool', ipa: '/fuːl/' },
+    { text: 'work', ipa: '/wɜːk/' },
+    { text: 'about', ipa: '/əˈbaʊt/' },
+    { text: 'rain', ipa: '/reɪn/' },
+    { text: 'boat', ipa: '/bəʊt/' },
+    { text: 'near', ipa: '/nɪə/' },
+    { text: 'think', ipa: '/θɪŋk/' },
+    { text: 'sink', ipa: '/sɪŋk/' },
+    { text: 'three', ipa: '/θriː/' },
+    { text: 'mouth', ipa: '/maʊθ/' },
+    { text: 'this', ipa: '/ðɪs/' },
+    { text: 'breathe', ipa: '/briːð/' },
+    { text: 'very', ipa: '/ˈveri/' },
+    { text: 'wine', ipa: '/waɪn/' },
+    { text: 'vine', ipa: '/vaɪn/' },
+    { text: 'light', ipa: '/laɪt/' },
+    { text: 'right', ipa: '/raɪt/' },
+    { text: 'thin', ipa: '/θɪn/' },
+    { text: 'thing', ipa: '/θɪŋ/' },
+    { text: 'measure', ipa: '/ˈmeʒə/' },
+    { text: 'judge', ipa: '/dʒʌdʒ/' },
+    { text: 'church', ipa: '/tʃɜːtʃ/' },
+    { text: 'yellow', ipa: '/ˈjeləʊ/' },
+    { text: 'world', ipa: '/wɜːld/' },
+    { text: 'clothes', ipa: '/kləʊðz/' },
+  ],
+  [PracticeLevel.Phrases]: [
+    { text: 'a cup of tea', ipa: '/ə ˈkʌp əv ˈtiː/' },
+    { text: 'think about it', ipa: '/ˈθɪŋk əˈbaʊt ɪt/' },
+    { text: 'this and that', ipa: '/ˈðɪs ən ˈðæt/' },
+    { text: 'very well', ipa: '/ˈveri ˈwel/' },
+    { text: 'right or wrong', ipa: '/ˈraɪt ɔː ˈrɒŋ/' },
+    { text: 'the other day', ipa: '/ðə ˈʌðə ˈdeɪ/' },
+    { text: 'light and heavy', ipa: '/ˈlaɪt ən ˈhevi/' },
+    { text: 'as soon as possible', ipa: '/əz ˈsuːn əz ˈpɒsəbl/' },
+    { text: 'once in a while', ipa: '/ˈwʌns ɪn ə ˈwaɪl/' },
+    { text: 'thank you very much', ipa: '/ˈθæŋk juː ˈveri ˈmʌtʃ/' },
+  ],
+  [PracticeLevel.Sentences]: [
+    { text: 'The weather is very nice today.', ipa: '/ðə ˈweðər ɪz ˈveri ˈnaɪs təˈdeɪ/' },
+    { text: 'I think three of them are thirsty.', ipa: '/aɪ ˈθɪŋk ˈθriː əv ðəm ə ˈθɜːsti/' },
+    { text: 'She sells seashells by the seashore.', ipa: '/ʃiː ˈselz ˈsiːʃelz baɪ ðə ˈsiːʃɔː/' },
+    { text: 'Would you like a glass of water?', ipa: '/wʊd juː ˈlaɪk ə ˈɡlɑːs əv ˈwɔːtə/' },
+    { text: 'Red lorry, yellow lorry.', ipa: '/ˈred ˈlɒri ˈjeləʊ ˈlɒri/' },
+    { text: 'The bad man sat on my bed.', ipa: '/ðə ˈbæd ˈmæn ˈsæt ɒn maɪ ˈbed/' },
+    { text: 'Please leave the ship before it sinks.', ipa: '/ˈpliːz ˈliːv ðə ˈʃɪp bɪˈfɔːr ɪt ˈsɪŋks/' },
+    { text: 'How now, brown cow?', ipa: '/ˈhaʊ ˈnaʊ ˈbraʊn ˈkaʊ/' },
+  ],
+};
+// General American. Vowels follow US dictionaries: no length marks, /oʊ/ for /əʊ/,
+// r-coloured vowels instead of the centring diphthongs, and no /ɒ/ (it merges into /ɑ/).
+// The vowel recordings are RP, so American vowels are voiced by TTS.
+export const AMERICAN_PRACTICE_DATA: PracticeData = {
+  [PracticeLevel.Phonemes]: [
     {
-      title: 'Consonants (辅音)',
+      title: 'Vowels (元音)',
       categories: [
         {
-          title: 'Voiceless Consonants (清辅音)',
+          title: 'Long Vowels (长元音)',
+          items: [
+            { text: '/i/', ipa: '/i/', exampleWord: 'see', speakableText: 'sea' },
+            { text: '/ɑ/', ipa: '/ɑ/', exampleWord: 'father', speakableText: 'spa' },
+            { text: '/ɔ/', ipa: '/ɔ/', exampleWord: 'saw', speakableText: 'awe' },
+            { text: '/u/', ipa: '/u/', exampleWord: 'blue', speakableText: 'ooze' },
+          ],
+        },
+        {
+          title: 'Short Vowels (短元音)',
+          items: [
+            { text: '/ɪ/', ipa: '/ɪ/', exampleWord: 'sit', speakableText: 'it' },
+            { text: '/ɛ/', ipa: '/ɛ/', exampleWord: 'bed', speakableText: 'egg' },
+            { text: '/æ/', ipa: '/æ/', exampleWord: 'cat', speakableText: 'at' },
+            { text: '/ə/', ipa: '/ə/', exampleWord: 'about', speakableText: 'ago' },
+            { text: '/ʌ/', ipa: '/ʌ/', exampleWord: 'cup', speakableText: 'up' },
+            { text: '/ʊ/', ipa: '/ʊ/', exampleWord: 'put', speakableText: 'put' },
+          ],
+        },
+        {
+          title: 'Diphthongs (双元音)',
           items: [
-            { text: '/p/', ipa: '/p/', exampleWord: 'pen', speakableText: 'pea', refAudioUrl: '/ipasounds/p.mp3' },
-            { text: '/t/', ipa: '/t/', exampleWord: 'tea', speakableText: 'tea', refAudioUrl: '/ipasounds/t.mp3' },
-            { text: '/k/', ipa: '/k/', exampleWord: 'cat', speakableText: 'key', refAudioUrl: '/ipasounds/k.mp3' },
-            { text: '/f/', ipa: '/f/', exampleWord: 'fan', speakableText: 'fee', refAudioUrl: '/ipasounds/f.mp3' },
-            { text: '/s/', ipa: '/s/', exampleWord: 'see', speakableText: 'sea', refAudioUrl: '/ipasounds/s.mp3' },
-            { text: '/ʃ/', ipa: '/ʃ/', exampleWord: 'she', speakableText: 'she', refAudioUrl: '/ipasounds/sh.mp3' },
-            { text: '/θ/', ipa: '/θ/', exampleWord: 'think', speakableText: 'thin', refAudioUrl: '/ipasounds/th-voiceless.mp3' },
-            { text: '/h/', ipa: '/h/', exampleWord: 'hot', speakableText: 'he', refAudioUrl: '/ipasounds/h.mp3' },
-            { text: '/tʃ/', ipa: '/tʃ/', exampleWord: 'chair', speakableText: 'chin', refAudioUrl: '/ipasounds/ch.mp3' },
-            { text: '/tr/', ipa: '/tr/', exampleWord: 'try', speakableText: 'try', refAudioUrl: '/ipasounds/tr.mp3' },
-            { text: '/ts/', ipa: '/ts/', exampleWord: 'cats', speakableText: 'cats', refAudioUrl: '/ipasounds/ts.mp3' },
+            { text: '/eɪ/', ipa: '/eɪ/', exampleWord: 'say', speakableText: 'eight' },
+            { text: '/aɪ/', ipa: '/aɪ/', exampleWord: 'my', speakableText: 'eye' },
+            { text: '/ɔɪ/', ipa: '/ɔɪ/', exampleWord: 'boy', speakableText: 'oil' },
+            { text: '/aʊ/', ipa: '/aʊ/', exampleWord: 'now', speakableText: 'ouch' },
+            { text: '/oʊ/', ipa: '/oʊ/', exampleWord: 'go', speakableText: 'oh' },
           ],
         },
         {
-          title: 'Voiced Consonants (浊辅音)',
+          title: 'R-Coloured Vowels (卷舌元音)',
           items: [
-            { text: '/b/', ipa: '/b/', exampleWord: 'bad', speakableText: 'bee', refAudioUrl: '/ipasounds/b.mp3' },
-            { text: '/d/', ipa: '/d/', exampleWord: 'did', speakableText: 'day', refAudioUrl: '/ipasounds/d.mp3' },
-            { text: '/g/', ipa: '/g/', exampleWord: 'go', speakableText: 'go', refAudioUrl: '/ipasounds/g.mp3' },
-            { text: '/v/', ipa: '/v/', exampleWord: 'van', speakableText: 'vie', refAudioUrl: '/ipasounds/v.mp3' },
-            { text: '/z/', ipa: '/z/', exampleWord: 'zoo', speakableText: 'zoo', refAudioUrl: '/ipasounds/z.mp3' },
-            { text: '/ʒ/', ipa: '/ʒ/', exampleWord: 'vision', speakableText: 'Asia', refAudioUrl: '/ipasounds/zh.mp3' },
-            { text: '/ð/', ipa: '/ð/', exampleWord: 'this', speakableText: 'the', refAudioUrl: '/ipasounds/th-voiced.mp3' },
-            { text: '/r/', ipa: '/r/', exampleWord: 'red', speakableText: 'ray', refAudioUrl: '/ipasounds/r.mp3' },
-            { text: '/dʒ/', ipa: '/dʒ/', exampleWord: 'jam', speakableText: 'jay', refAudioUrl: '/ipasounds/dzh.mp3' },
-            { text: '/dr/', ipa: '/dr/', exampleWord: 'dry', speakableText: 'dry', refAudioUrl: '/ipasounds/dr.mp3' },
-            { text: '/dz/', ipa: '/dz/', exampleWord: 'beds', speakableText: 'beds', refAudioUrl: '/ipasounds/dz.mp3' },
-            { text: '/m/', ipa: '/m/', exampleWord: 'man', speakableText: 'me', refAudioUrl: '/ipasounds/m.mp3' },
-            { text: '/n/', ipa: '/n/', exampleWord: 'no', speakableText: 'knee', refAudioUrl: '/ipasounds/n.mp3' },
-            { text: '/ŋ/', ipa: '/ŋ/', exampleWord: 'sing', speakableText: 'sing', refAudioUrl: '/ipasounds/ng.mp3' },
-            { text: '/l/', ipa: '/l/', exampleWord: 'leg', speakableText: 'lee', refAudioUrl: '/ipasounds/l.mp3' },
-            { text: '/w/', ipa: '/w/', exampleWord: 'wet', speakableText: 'we', refAudioUrl: '/ipasounds/w.mp3' },
-            { text: '/j/', ipa: '/j/', exampleWord: 'yes', speakableText: 'yea', refAudioUrl: '/ipasounds/y.mp3' },
+            { text: '/ɝ/', ipa: '/ɝ/', exampleWord: 'bird', speakableText: 'her' },
+            { text: '/ɚ/', ipa: '/ɚ/', exampleWord: 'teacher', speakableText: 'butter' },
+            { text: '/ɑr/', ipa: '/ɑr/', exampleWord: 'car', speakableText: 'are' },
+            { text: '/ɔr/', ipa: '/ɔr/', exampleWord: 'more', speakableText: 'or' },
+            { text: '/ɪr/', ipa: '/ɪr/', exampleWord: 'here', speakableText: 'ear' },
+            { text: '/ɛr/', ipa: '/ɛr/', exampleWord: 'hair', speakableText: 'air' },
+            { text: '/ʊr/', ipa: '/ʊr/', exampleWord: 'tour', speakableText: 'tour' },
           ],
         },
       ],
     },
+    CONSONANTS,
+  ],
+  [PracticeLevel.Words]: [
+    { text: 'sheep', ipa: '/ʃip/' },
+    { text: 'ship', ipa: '/ʃɪp/' },
+    { text: 'leave', ipa: '/liv/' },
+    { text: 'live', ipa: '/lɪv/' },
+    { text: 'bed', ipa: '/bɛd/' },
+    { text: 'bad', ipa: '/bæd/' },
+    { text: 'cup', ipa: '/kʌp/' },
+    { text: 'heart', ipa: '/hɑrt/' },
+    { text: 'hot', ipa: '/hɑt/' },
+    { text: 'caught', ipa: '/kɔt/' },
+    { text: 'full', ipa: '/fʊl/' },
+    { text: 'fool', ipa: '/ful/' },
+    { text: 'work', ipa: '/wɝk/' },
+    { text: 'about', ipa: '/əˈbaʊt/' },
+    { text: 'rain', ipa: '/reɪn/' },
+    { text: 'boat', ipa: '/boʊt/' },
+    { text: 'near', ipa: '/nɪr/' },
+    { text: 'think', ipa: '/θɪŋk/' },
+    { text: 'sink', ipa: '/sɪŋk/' },
+    { text: 'three', ipa: '/θri/' },
+    { text: 'mouth', ipa: '/maʊθ/' },
+    { text: 'this', ipa: '/ðɪs/' },
+    { text: 'breathe', ipa: '/brið/' },
+    { text: 'very', ipa: '/ˈvɛri/' },
+    { text: 'wine', ipa: '/waɪn/' },
+    { text: 'vine', ipa: '/vaɪn/' },
+    { text: 'light', ipa: '/laɪt/' },
+    { text: 'right', ipa: '/raɪt/' },
+    { text: 'thin', ipa: '/θɪn/' },
+    { text: 'thing', ipa: '/θɪŋ/' },
+    { text: 'measure', ipa: '/ˈmɛʒɚ/' },
+    { text: 'judge', ipa: '/dʒʌdʒ/' },
+    { text: 'church', ipa: '/tʃɝtʃ/' },
+    { text: 'yellow', ipa: '/ˈjɛloʊ/' },
+    { text: 'world', ipa: '/wɝld/' },
+    { text: 'clothes', ipa: '/kloʊðz/' },
+  ],
+  [PracticeLevel.Phrases]: [
+    { text: 'a cup of tea', ipa: '/ə ˈkʌp əv ˈti/' },
+    { text: 'think about it', ipa: '/ˈθɪŋk əˈbaʊt ɪt/' },
+    { text: 'this and that', ipa: '/ˈðɪs ən ˈðæt/' },
+    { text: 'very well', ipa: '/ˈvɛri ˈwɛl/' },
+    { text: 'right or wrong', ipa: '/ˈraɪt ɔr ˈrɔŋ/' },
+    { text: 'the other day', ipa: '/ðə ˈʌðɚ ˈdeɪ/' },
+    { text: 'light and heavy', ipa: '/ˈlaɪt ən ˈhɛvi/' },
+    { text: 'as soon as possible', ipa: '/əz ˈsun əz ˈpɑsəbl/' },
+    { text: 'once in a while', ipa: '/ˈwʌns ɪn ə ˈwaɪl/' },
+    { text: 'thank you very much', ipa: '/ˈθæŋk ju ˈvɛri ˈmʌtʃ/' },
   ],
-  [PracticeLevel.Words]: [],
-  [PracticeLevel.Phrases]: [],
-  [PracticeLevel.Sentences]: [],
-};
\ No newline at end of file
+  [PracticeLevel.Sentences]: [
+    { text: 'The weather is very nice today.', ipa: '/ðə ˈwɛðɚ ɪz ˈvɛri ˈnaɪs təˈdeɪ/' },
+    { text: 'I think three of them are thirsty.', ipa: '/aɪ ˈθɪŋk ˈθri əv ðəm ɚ ˈθɝsti/' },
+    { text: 'She sells seashells by the seashore.', ipa: '/ʃi ˈsɛlz ˈsiʃɛlz baɪ ðə ˈsiʃɔr/' },
+    { text: 'Would you like a glass of water?', ipa: '/wʊd ju ˈlaɪk ə ˈɡlæs əv ˈwɔtɚ/' },
+    { text: 'Red leather, yellow leather.', ipa: '/ˈrɛd ˈlɛðɚ ˈjɛloʊ ˈlɛðɚ/' },
+    { text: 'The bad man sat on my bed.', ipa: '/ðə ˈbæd ˈmæn ˈsæt ɑn maɪ ˈbɛd/' },
+    { text: 'Please leave the ship before it sinks.', ipa: '/ˈpliz ˈliv ðə ˈʃɪp bɪˈfɔr ɪt ˈsɪŋks/' },
+    { text: 'How now, brown cow?', ipa: '/ˈhaʊ ˈnaʊ ˈbraʊn ˈkaʊ/' },
+  ],
+};
+
+export const PRACTICE_DATA_BY_ACCENT: Record<Accent, PracticeData> = {
+  british: PRACTICE_DATA,
+  american: AMERICAN_PRACTICE_DATA,
+};
+
+// Rules for when an item counts as mastered and when the next stage unlocks.
+export const MASTERY_CONFIG: MasteryConfig = {
+  passingScore: 85,     // An attempt at or above this overall score counts as a pass
+  requiredPasses: 2,    // Passes needed before an item counts as mastered
+  unlockThreshold: 0.8, // Share of mastered items needed to unlock the next category or level
+};
+
+// Limits for the daily spaced-repetition review queue.
+export const REVIEW_CONFIG = {
+  dailyLimit: 20, // Most items offered in one day's review session
+};
+
+// Voice activity detection while recording.
+export const VAD_CONFIG: VadConfig = {
+  frameMs: 20,
+  speechMarginDb: 12,
+  minSpeechDb: -50,
+  onsetMs: 60,
+  paddingMs: 250,
+  autoStopSilenceMs: 1500, // Long enough for a breath between the words of a sentence
+};
+
+// Limits of the quality check every take gets before it is submitted.
+export const RECORDING_QUALITY_CONFIG: RecordingQualityConfig = {
+  minDurationMs: 600,      // Trimmed takes keep some padding, so this leaves only a blip of speech
+  minRmsDb: -35,
+  maxClippingRatio: 0.001,
+  minSnrDb: 15,
+};
+
+// What each preflight issue means for the score, and how to fix it.
+export const RECORDING_ISSUE_ADVICE: Record<RecordingIssue, string> = {
+  too_short: '录音太短，未提交评分。请完整读完后再停止。',
+  too_quiet: '录音音量太低，评分可能偏低。请靠近麦克风或提高音量。',
+  clipped: '录音有爆音（音量过载），评分可能偏低。请离麦克风远一些或调低输入音量。',
+  noisy: '背景噪音较大，评分可能偏低。请换到安静的环境再试。',
+};
+
+export const ACTIVATION_PLANS: ActivationPlan[] = [
+  { label: '月卡', durationDays: 31 },
+  { label: '季卡', durationDays: 92 },
+  { label: '年卡', durationDays: 365 },
+];
+
+// Speeds offered for the reference audio; slower speeds help with diphthongs and clusters.
+export const PLAYBACK_SPEEDS: PlaybackSpeed[] = [0.5, 0.75, 1];
+
+export const ACCENT_LABELS: Record<Accent, string> = {
+  british: '英式',
+  american: '美式',
+};
+
+// The TTS voice that reads reference audio for each accent.
+export const ACCENT_TTS_VOICES: Record<Accent, TtsVoice> = {
+  british: 'catherine',
+  american: 'x4_EnUs_Laura_education',
+};
@@ -1,295 +1,165 @@
 /**
  * @file This file implements a Cloudflare Pages function that acts as a secure
- * proxy to iFlytek (Xunfei) services. It routes requests to either:
- * 1. Speech Evaluation (suntone) via WebSocket for pronunciation scoring.
- * 2. Text-to-Speech (TTS) via HTTP POST for generating demonstration audio.
- *
- * NOTE: The primary cause of 'Timeout' errors is often a misconfigured IP whitelist
- * in the Xunfei developer console. This function's code is correct, but Xunfei's
- * firewall may silently drop requests from unknown IPs, leading to a timeout here.
+ * proxy to iFlytek (Xunfei) services. It routes requests to:
+ * 1. Pronunciation scoring through the configured evaluation provider, for whole recordings
+ *    or streamed over a WebSocket while the learner speaks (see server/evaluation.ts).
+ * 2. Text-to-Speech (TTS) for demonstration audio (see server/tts.ts).
+ * 3. Account registration, login and sessions (see server/auth.ts).
+ * 4. Activation code redemption (see server/activation.ts).
+ * 5. The admin console (see server/admin.ts).
+ * 6. The caller's free evaluation quota (see server/quota.ts).
  */
 
-import { EvaluationRequestBody, TtsRequestBody } from '../../types';
+import { handleRegister, handleLogin, handleLogout, handleMe } from '../../server/auth';
+import { handleRedeem } from '../../server/activation';
+import { handleEvaluation, handleEvaluationStream } from '../../server/evaluation';
+import { handleTts } from '../../server/tts';
+import {
+  handleGenerateCodes,
+  handleListCodes,
+  handleRevokeCode,
+  handleSearchUsers,
+  handleStats,
+  handleUpdateSubscription,
+} from '../../server/admin';
+import { jsonResponse } from '../../server/http';
+import { recordUsage, UsageKind } from '../../server/usage';
+import { consumeEvaluationQuota, handleQuota } from '../../server/quota';
+import { enforceRateLimit, getBucketStore, getRateLimitKey, RATE_LIMITS, RateLimitRule } from '../../server/rateLimit';
+import { checkOrigin, corsHeaders, preflightResponse } from '../../server/cors';
 
 // Minimal type definition for a Cloudflare Pages function handler.
 type PagesFunction = (context: {
   request: Request;
   env: Record<string, any>;
+  waitUntil: (promise: Promise<unknown>) => void;
 }) => Promise<Response>;
 
-// --- Hashing and Encoding Utilities ---
-const toBase64 = (buffer: ArrayBuffer): string => {
-    let binary = '';
-    const bytes = new Uint8Array(buffer);
-    for (let i = 0; i < bytes.byteLength; i++) {
-        binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-};
-
-const utf8StringToBuf = (str: string): ArrayBuffer => {
-    return new TextEncoder().encode(str).buffer;
-};
-
-async function sha256_base64(buffer: ArrayBuffer): Promise<string> {
-    const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-    return toBase64(hashBuffer);
+// `settle` is only used by deferred routes; see Route.deferred.
+type RouteHandler = (request: Request, env: Record<string, any>, settle: (succeeded: boolean) => void) => Promise<Response>;
+
+interface Route {
+  method: 'GET' | 'POST';
+  handler: RouteHandler;
+  usesXunfei?: boolean; // Requires the Xunfei credentials to be configured
+  usageKind?: UsageKind; // Successful calls are counted in the admin usage stats
+  metered?: boolean;     // Each call takes one from the caller's free evaluation quota
+  rateLimit?: RateLimitRule; // Extra bucket on top of the per-IP limit every route has
+  // Answers before the call's outcome is known (a WebSocket upgrade) and reports it
+  // through `settle` later, which then refunds the quota or counts the usage.
+  deferred?: boolean;
 }
 
-// --- Xunfei Authentication Logic ---
+const routes: { [pathname: string]: Route } = {
+  '/api/evaluation': { method: 'POST', handler: handleEvaluation, usageKind: 'evaluation', metered: true, rateLimit: 'xunfei' },
+  '/api/evaluation/stream': { method: 'GET', handler: handleEvaluationStream, usageKind: 'evaluation', metered: true, rateLimit: 'xunfei', deferred: true },
+  '/api/quota': { method: 'GET', handler: handleQuota },
+  '/api/tts': { method: 'POST', handler: handleTts, usesXunfei: true, usageKind: 'tts', rateLimit: 'xunfei' },
+  '/api/auth/register': { method: 'POST', handler: handleRegister, rateLimit: 'auth' },
+  '/api/auth/login': { method: 'POST', handler: handleLogin, rateLimit: 'auth' },
+  '/api/auth/logout': { method: 'POST', handler: handleLogout },
+  '/api/auth/me': { method: 'GET', handler: handleMe },
+  '/api/activation/redeem': { method: 'POST', handler: handleRedeem },
+  '/api/admin/stats': { method: 'GET', handler: handleStats },
+  '/api/admin/codes': { method: 'GET', handler: handleListCodes },
+  '/api/admin/codes/generate': { method: 'POST', handler: handleGenerateCodes },
+  '/api/admin/codes/revoke': { method: 'POST', handler: handleRevokeCode },
+  '/api/admin/users': { method: 'GET', handler: handleSearchUsers },
+  '/api/admin/users/subscription': { method: 'POST', handler: handleUpdateSubscription },
+};
 
 /**
- * Generates the required authentication headers for Xunfei HTTP/WebSocket APIs.
- * Supports both HMAC-SHA1 and HMAC-SHA256 algorithms.
+ * Routes a request to its handler. Each route accepts exactly one method; anything
+ * else gets a 405.
  */
-async function getXunfeiAuthParams(
-  env: Record<string, any>, 
-  host: string, 
-  path: string, 
-  method: 'GET' | 'POST' = 'GET',
-  body?: string,
-  algorithm: 'sha1' | 'sha256' = 'sha256'
-): Promise<{ date: string; authorization: string; digestHeader?: string }> {
-    const date = new Date().toUTCString();
-    let signatureOrigin = `host: ${host}\ndate: ${date}\n${method} ${path} HTTP/1.1`;
-    let headers = 'host date request-line';
-    let digestHeader: string | undefined = undefined;
+async function dispatch(request: Request, env: Record<string, any>, waitUntil: (promise: Promise<unknown>) => void): Promise<Response> {
+  const url = new URL(request.url);
+  const route = routes[url.pathname];
+  if (!route) {
+    return new Response('Not Found', { status: 404 });
+  }
+  if (request.method !== route.method) {
+    return new Response('Method Not Allowed', { status: 405, headers: { 'Allow': route.method } });
+  }
 
-    // For POST requests with a body, a digest must be included in the signature.
-    // The HTTP Digest header standard is typically SHA-256, even if the signature HMAC is different.
-    if (method === 'POST' && body) {
-        const bodyDigest = await sha256_base64(utf8StringToBuf(body));
-        digestHeader = `SHA-256=${bodyDigest}`;
-        signatureOrigin += `\ndigest: ${digestHeader}`;
-        headers += ' digest';
+  try {
+    const buckets = getBucketStore(env);
+    await enforceRateLimit(buckets, await getRateLimitKey(request, env, 'ip'), RATE_LIMITS.ip);
+    if (route.rateLimit) {
+      await enforceRateLimit(buckets, await getRateLimitKey(request, env, route.rateLimit), RATE_LIMITS[route.rateLimit]);
     }
 
-    const secretKey = env.XUNFEI_API_SECRET;
-
-    const hashAlgoName = algorithm === 'sha1' ? 'SHA-1' : 'SHA-256';
-    // FIX: The older WebSocket service requires "hmac-sha256" in the authorization string,
-    // even though the signature itself is calculated using HMAC-SHA1. The newer HTTP
-    // services use "hmac-sha256" for both. This change unifies the algorithm string.
-    const authAlgoString = 'hmac-sha256';
-
-    const cryptoKey = await crypto.subtle.importKey(
-        'raw', 
-        utf8StringToBuf(secretKey), 
-        { name: 'HMAC', hash: { name: hashAlgoName } }, 
-        false, 
-        ['sign']
-    );
-    
-    const signatureBuffer = await crypto.subtle.sign({ name: 'HMAC', hash: hashAlgoName }, cryptoKey, utf8StringToBuf(signatureOrigin));
-    const signature = toBase64(signatureBuffer);
-
-    const authorizationOrigin = `api_key="${env.XUNFEI_API_KEY}", algorithm="${authAlgoString}", headers="${headers}", signature="${signature}"`;
-    const authorization = btoa(authorizationOrigin);
-    
-    return { date, authorization, digestHeader };
-}
-
-
-// --- WebSocket Handler for Speech Evaluation ---
-async function handleEvaluation(request: Request, env: Record<string, any>): Promise<Response> {
-    const { audioBase64, referenceText, audioMimeType } = await request.json() as EvaluationRequestBody;
-    const encoding = audioMimeType === 'audio/pcm' ? 'raw' : 'lame';
-  
-    const host = 'cn-east-1.ws-api.xf-yun.com';
-    const path = '/v1/private/s8e098720';
-    // Use HMAC-SHA1 for this older WebSocket-based evaluation service.
-    const { date, authorization } = await getXunfeiAuthParams(env, host, path, 'GET', undefined, 'sha1');
-    const params = new URLSearchParams({ host, date, authorization });
-    
-    // For Cloudflare Workers, initiate WebSocket with an HTTPS fetch and an 'Upgrade' header.
-    const fetchUrl = `https://${host}${path}?${params.toString()}`;
-    const upgradeResponse = await fetch(fetchUrl, {
-      headers: { 'Upgrade': 'websocket' }
-    });
-  
-    // FIX: The standard `Response` type does not include the `webSocket` property, which is a Cloudflare-specific extension for handling WebSocket upgrades. Cast to `any` to bypass the type check.
-    const ws = (upgradeResponse as any).webSocket;
-    if (!ws) {
-      const errorBody = await upgradeResponse.text();
-      console.error("WebSocket upgrade failed:", upgradeResponse.status, errorBody);
-      throw new Error(`AI 引擎连接握手失败 (status: ${upgradeResponse.status}). 讯飞返回: ${errorBody || '无详细信息'}`);
+    if (route.usesXunfei) {
+      const { XUNFEI_APP_ID, XUNFEI_API_KEY, XUNFEI_API_SECRET } = env;
+      if (!XUNFEI_APP_ID || !XUNFEI_API_KEY || !XUNFEI_API_SECRET) {
+        console.error('Xunfei environment variables are not set.');
+        throw new Error('Server configuration error.');
+      }
     }
 
-    // This Promise wraps the WebSocket lifecycle.
-    const result = await new Promise((resolve, reject) => {
-        let settled = false;
-        const settle = (func: Function, value: any) => {
-            if (!settled) {
-                settled = true;
-                cleanup();
-                func(value);
-            }
-        };
-
-        const timeoutId = setTimeout(() => {
-            ws.close(1001, 'Timeout');
-        }, 15000); // 15-second timeout
-
-        const cleanup = () => clearTimeout(timeoutId);
-
-        ws.accept();
-
-        ws.addEventListener('message', (event) => {
-            try {
-                const response = JSON.parse(event.data as string);
-                if (response.header.code === 0 && response.payload?.result?.text) {
-                    const decodedResult = JSON.parse(atob(response.payload.result.text));
-                    settle(resolve, decodedResult.result);
-                    ws.close(1000, "Task completed");
-                } else if (response.header.code !== 0) {
-                    settle(reject, { message: `AI 引擎错误: ${response.header.message || '未知错误'}`, code: 'XF_API_ERROR' });
-                    ws.close(4000, "Error received");
-                }
-            } catch (e) {
-                settle(reject, { message: '解析 AI 引擎响应失败。', code: 'XF_PARSE_ERROR' });
-                ws.close(4001, "Parse error");
-            }
-        });
-
-        ws.addEventListener('error', () => {
-            settle(reject, { message: '与 AI 评分服务连接失败。', code: 'XF_CONNECTION_FAILED' });
-        });
-
-        ws.addEventListener('close', (event) => {
-            if (event.code === 1001 && event.reason === 'Timeout') {
-                settle(reject, { message: 'AI 引擎响应超时。', code: 'XF_TIMEOUT' });
-            } else if (!event.wasClean && event.code !== 1000) {
-                settle(reject, { message: `与 AI 评分服务的连接意外断开 (Code: ${event.code})。`, code: 'XF_CONNECTION_CLOSED' });
-            }
-        });
-        
-        // Send data after accepting and setting up listeners.
-        const requestFrame = {
-            header: { app_id: env.XUNFEI_APP_ID, status: 0 },
-            parameter: {
-                st: {
-                    lang: 'en',
-                    core: 'word',
-                    dict_type: 'IPA88',      // Use IPA88 for better compatibility with British English
-                    dict_dialect: 'en_br',   // Set to British English
-                    refText: referenceText,
-                    phoneme_output: 1,
-                    result: { encoding: 'utf8', compress: 'raw', format: 'json' }
-                }
-            },
-            payload: {
-                data: {
-                    encoding, sample_rate: 16000, channels: 1, bit_depth: 16, status: 0, audio: audioBase64,
-                }
-            }
-        };
-        ws.send(JSON.stringify(requestFrame));
-        ws.send(JSON.stringify({ header: { app_id: env.XUNFEI_APP_ID, status: 2 } }));
-    });
-
-    return new Response(JSON.stringify(result), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-    });
-}
-
-
-// --- HTTP Handler for Text-to-Speech ---
-async function handleTts(request: Request, env: Record<string, any>): Promise<Response> {
-    const { text } = await request.json() as TtsRequestBody;
-
-    const host = 'tts-api.xfyun.cn';
-    const path = '/v2/tts';
-    
-    const ttsRequestBody = JSON.stringify({
-        header: { app_id: env.XUNFEI_APP_ID },
-        parameter: {
-            tts: { ent: 'en_vip', vcn: 'catherine', aue: 'lame', tte: 'UTF8' } // 'catherine' is a British female voice
-        },
-        payload: {
-            text: {
-                encoding: 'UTF8', status: 2, text: toBase64(utf8StringToBuf(text))
-            }
-        }
-    });
-
-    // Use HMAC-SHA256 for the modern v2 TTS service.
-    const { date, authorization, digestHeader } = await getXunfeiAuthParams(env, host, path, 'POST', ttsRequestBody, 'sha256');
-    
-    const headers: Record<string, string> = {
-        'Content-Type': 'application/json', 'Host': host, 'Date': date, 'Authorization': authorization
+    // Checked before the handler runs, so an over-quota call never reaches Xunfei.
+    const quota = route.metered ? await consumeEvaluationQuota(request, env) : null;
+    const countUsage = () => {
+      if (route.usageKind) {
+        // Counting must never hold up or fail the response.
+        waitUntil(recordUsage(env, route.usageKind).catch(error => console.error('Failed to record usage:', error)));
+      }
+    };
+    const settle = (succeeded: boolean) => {
+      if (succeeded) countUsage();
+      else if (quota) waitUntil(quota.refund().catch(error => console.error('Failed to refund quota:', error)));
     };
-    if (digestHeader) headers['Digest'] = digestHeader;
 
-    const response = await fetch(`https://${host}${path}`, {
-        method: 'POST',
-        headers,
-        body: ttsRequestBody
-    });
+    let response: Response;
+    try {
+      response = await route.handler(request, env, settle);
+    } catch (error) {
+      await quota?.refund();
+      throw error;
+    }
+    if (quota) {
+      if (!route.deferred && !response.ok) await quota.refund();
+      Object.entries(quota.headers).forEach(([name, value]) => response.headers.append(name, value));
+    }
 
-    const responseData = await response.json() as any;
-    
-    if (responseData.header?.code !== 0) {
-        throw new Error(`音频合成失败 (${responseData.header?.code || 'N/A'}): ${responseData.header?.message || '未知错误'}`);
+    if (!route.deferred && response.ok) {
+      countUsage();
     }
+    return response;
 
-    return new Response(JSON.stringify({ audioBase64: responseData.payload.audio.audio }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-    });
+  } catch (error: any) {
+    // Client errors (bad input, wrong password, ...) carry their own status and message.
+    if (error.status && error.status < 500) {
+      return jsonResponse(
+        { ...error.details, error: error.message, code: error.code || 'BAD_REQUEST' },
+        error.status,
+        error.headers
+      );
+    }
+    console.error(`Error in proxy for ${url.pathname}:`, error);
+    const errorMessage = error.message || 'An unknown error occurred.';
+    const errorCode = error.code || 'UNKNOWN';
+    return jsonResponse({ error: `服务错误: ${errorMessage}`, code: errorCode }, 500);
+  }
 }
 
-
 /**
- * Main Cloudflare Pages function that routes requests to the appropriate handler.
- * It explicitly checks for the POST method to ensure stability.
+ * Main Cloudflare Pages function. Applies the CORS origin allowlist, then dispatches.
  */
-export const onRequest: PagesFunction = async ({ request, env }) => {
+export const onRequest: PagesFunction = async ({ request, env, waitUntil }) => {
+  const origin = checkOrigin(request, env);
   // Browsers send an OPTIONS request (preflight) for complex requests,
   // such as one with a 'Content-Type: application/json' header.
-  // We need to handle this to allow the actual POST request to proceed.
   if (request.method === 'OPTIONS') {
-    return new Response(null, {
-      status: 204, // No Content
-      headers: {
-        'Access-Control-Allow-Origin': '*', // In production, you might want to restrict this to your domain
-        'Access-Control-Allow-Methods': 'POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
-        'Access-Control-Max-Age': '86400', // Cache preflight response for 1 day
-      },
-    });
+    return preflightResponse(origin);
   }
-  
-  // Explicitly handle only POST requests for our API endpoints.
-  if (request.method !== 'POST') {
-    return new Response('Method Not Allowed', { status: 405, headers: { 'Allow': 'POST' } });
+  if (!origin.allowed) {
+    return jsonResponse({ error: '不允许的请求来源。', code: 'ORIGIN_NOT_ALLOWED' }, 403);
   }
 
-  const url = new URL(request.url);
-  try {
-    const { XUNFEI_APP_ID, XUNFEI_API_KEY, XUNFEI_API_SECRET } = env;
-    if (!XUNFEI_APP_ID || !XUNFEI_API_KEY || !XUNFEI_API_SECRET) {
-      console.error('Xunfei environment variables are not set.');
-      throw new Error('Server configuration error.');
-    }
-
-    if (url.pathname === '/api/evaluation') {
-      return await handleEvaluation(request, env);
-    }
-
-    if (url.pathname === '/api/tts') {
-      return await handleTts(request, env);
-    }
-    
-    return new Response('Not Found', { status: 404 });
-
-  } catch (error: any) {
-    console.error(`Error in proxy for ${url.pathname}:`, error);
-    const errorMessage = error.message || 'An unknown error occurred.';
-    const errorCode = error.code || 'UNKNOWN';
-    return new Response(JSON.stringify({ error: `服务错误: ${errorMessage}`, code: errorCode }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+  const response = await dispatch(request, env, waitUntil);
+  if (origin.corsOrigin) {
+    Object.entries(corsHeaders(origin.corsOrigin)).forEach(([name, value]) => response.headers.set(name, value));
   }
-};
\ No newline at end of file
+  return response;
+};
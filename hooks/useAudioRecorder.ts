@@ -1,4 +1,14 @@
 import { useState, useRef } from 'react';
+import { RecordingQuality, VadConfig } from '../types';
+import { VAD_CONFIG } from '../constants';
+import { PCM_SAMPLE_RATE, pcmChunksToFloat, pcmToWavBlob } from '../services/audioUtils';
+import { isPcmCaptureSupported, PcmCapture, startPcmCapture } from '../services/pcmCapture';
+import { createVoiceActivityGate, VoiceActivityGate } from '../services/voiceActivity';
+import { analyzeRecordingQuality } from '../services/recordingQuality';
+import { getMicCalibration } from '../services/micCalibration';
+
+// Set on the error for a take in which no speech was detected.
+export const NO_SPEECH = 'NO_SPEECH';
 
 const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -16,49 +26,59 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-// Helper function to resample audio buffer to a target sample rate (e.g., 16kHz)
-const resampleBuffer = (audioBuffer: AudioBuffer, targetSampleRate: number): Float32Array => {
-    const sourceData = audioBuffer.getChannelData(0);
-    const sourceSampleRate = audioBuffer.sampleRate;
-
-    if (sourceSampleRate === targetSampleRate) {
-        return sourceData;
-    }
-
-    const ratio = sourceSampleRate / targetSampleRate;
-    const newLength = Math.round(sourceData.length / ratio);
-    const result = new Float32Array(newLength);
-    let offsetResult = 0;
-    let offsetSource = 0;
-
-    while (offsetResult < newLength) {
-        const nextSourceOffset = Math.round((offsetResult + 1) * ratio);
-        let accum = 0;
-        let count = 0;
-        for (let i = offsetSource; i < nextSourceOffset && i < sourceData.length; i++) {
-            accum += sourceData[i];
-            count++;
-        }
-        result[offsetResult] = count > 0 ? accum / count : 0;
-        offsetResult++;
-        offsetSource = nextSourceOffset;
-    }
-    return result;
+export interface RecordingResult {
+  // Object URL of a playable version of the recording. The caller owns it and must revoke it.
+  url: string;
+  base64: string;
+  mimeType: string;
+  blob: Blob;
+  // The same samples, for analysis and segment playback without decoding them again.
+  audioBuffer: AudioBuffer;
+  // Preflight measurements of the take.
+  quality: RecordingQuality;
+}
+
+export interface RecordingOptions {
+  // Receives the speech as 16 kHz, 16-bit mono PCM while recording, e.g. to stream it
+  // for scoring. Leading and trailing silence never reach it.
+  onPcmChunk?: (pcm: Int16Array<ArrayBuffer>) => void;
+  // Called once the learner has been silent for the configured time after speaking;
+  // the recording keeps running until `stopRecording`.
+  onSilence?: () => void;
+}
+
+interface PcmRecording {
+  capture: PcmCapture;
+  stream: MediaStream;
+  gate: VoiceActivityGate;
+  chunks: Int16Array<ArrayBuffer>[];
+  onPcmChunk?: (pcm: Int16Array<ArrayBuffer>) => void;
+}
+
+const pcmRecordingResult = async (chunks: Int16Array<ArrayBuffer>[]): Promise<RecordingResult> => {
+  const pcmBlob = new Blob(chunks, { type: 'audio/pcm' });
+  // Raw PCM has no container, so wrap it in WAV for playback.
+  const url = URL.createObjectURL(await pcmToWavBlob(pcmBlob));
+  const samples = pcmChunksToFloat(chunks);
+  const audioBuffer = new AudioBuffer({ length: Math.max(1, samples.length), sampleRate: PCM_SAMPLE_RATE });
+  audioBuffer.copyToChannel(samples, 0);
+  // The take is trimmed to the speech, so the calibrated room level is the better noise estimate.
+  const quality = analyzeRecordingQuality(samples, PCM_SAMPLE_RATE, getMicCalibration()?.noiseDb ?? null);
+  return { url, base64: await blobToBase64(pcmBlob), mimeType: 'audio/pcm', blob: pcmBlob, audioBuffer, quality };
 };
 
-// List of supported MIME types, with the preferred one for Xunfei (MP3) first.
-const SUPPORTED_MIME_TYPES = [
-    'audio/mpeg',
-    'audio/webm;codecs=opus',
-    'audio/ogg;codecs=opus',
-];
-
-export const useAudioRecorder = () => {
+/**
+ * Records from the microphone as 16 kHz PCM through an AudioWorklet, whatever the
+ * browser's native rate. Voice activity detection drives the input meter, trims the
+ * silence around the speech and reports when the learner has stopped talking.
+ */
+export const useAudioRecorder = (vadConfig: VadConfig = VAD_CONFIG) => {
   const [isRecording, setIsRecording] = useState(false);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
+  // Input level from 0 to 1 while recording, else null.
+  const [inputLevel, setInputLevel] = useState<number | null>(null);
+  const pcmRecordingRef = useRef<PcmRecording | null>(null);
 
-  const startRecording = async () => {
+  const startRecording = async ({ onPcmChunk, onSilence }: RecordingOptions = {}) => {
     if (isRecording) {
       console.warn('Recording is already in progress.');
       return;
@@ -67,87 +87,70 @@ export const useAudioRecorder = () => {
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
         throw new Error('Media Devices API not supported in this browser.');
     }
+    if (!isPcmCaptureSupported()) {
+        throw new Error('您的浏览器不支持录音，请使用最新版的 Chrome、Edge、Firefox 或 Safari。');
+    }
 
-    const stream = await navigator.mediaDevices.getUserMedia({ audio: {
-        sampleRate: 16000 
-    }});
-    
-    // Find the best supported MIME type, preferring MP3.
-    const supportedMimeType = SUPPORTED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
-    
-    if (!supportedMimeType) {
+    // No sample rate is requested: the microphone runs at its own rate and the capture
+    // pipeline filters it down to 16 kHz.
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+
+    const gate = createVoiceActivityGate(vadConfig, getMicCalibration()?.noiseDb ?? null);
+    const chunks: Int16Array<ArrayBuffer>[] = [];
+    let silenceReported = false;
+    try {
+        const capture = await startPcmCapture(stream, pcm => {
+            const { speech, level, silenceMs } = gate.push(pcm);
+            setInputLevel(level);
+            if (speech) {
+                chunks.push(speech);
+                onPcmChunk?.(speech);
+            }
+            // Not while stopping, when the last chunks are still coming in.
+            const { autoStopSilenceMs } = vadConfig;
+            if (!silenceReported && pcmRecordingRef.current && autoStopSilenceMs !== null && silenceMs >= autoStopSilenceMs) {
+                silenceReported = true;
+                onSilence?.();
+            }
+        });
+        pcmRecordingRef.current = { capture, stream, gate, chunks, onPcmChunk };
+    } catch (error) {
         stream.getTracks().forEach(track => track.stop());
-        throw new Error('No supported audio recording format found for this browser.');
+        throw error;
     }
-    
-    console.log(`Using MIME type: ${supportedMimeType}`);
-    const mediaRecorder = new MediaRecorder(stream, { mimeType: supportedMimeType });
-
-    mediaRecorderRef.current = mediaRecorder;
-    audioChunksRef.current = [];
-
-    mediaRecorder.ondataavailable = (event) => {
-      audioChunksRef.current.push(event.data);
-    };
-
-    mediaRecorder.onstart = () => {
-      setIsRecording(true);
-    };
-
-    mediaRecorder.start();
+    setInputLevel(0);
+    setIsRecording(true);
   };
 
-  const stopRecording = (): Promise<{ url: string; base64: string; mimeType: string; }> => {
-    return new Promise((resolve, reject) => {
-      if (!mediaRecorderRef.current || !isRecording) {
+  const stopRecording = async (): Promise<RecordingResult> => {
+    if (!pcmRecordingRef.current) {
         console.warn('Recording not started or already stopped.');
-        reject(new Error('录音尚未开始或已停止。'));
-        return;
-      }
-
-      mediaRecorderRef.current.onstop = async () => {
-        try {
-            const finalMimeType = mediaRecorderRef.current?.mimeType || 'audio/mpeg';
-            const audioBlob = new Blob(audioChunksRef.current, { type: finalMimeType });
-            
-            // PREFERRED PATH: If the browser recorded directly to MP3, send it.
-            if (finalMimeType === 'audio/mpeg') {
-                const audioUrl = URL.createObjectURL(audioBlob);
-                const base64 = await blobToBase64(audioBlob);
-                resolve({ url: audioUrl, base64, mimeType: 'audio/mpeg' });
-            } else {
-                // FALLBACK PATH: If MP3 wasn't supported, convert to raw PCM as a last resort.
-                console.warn(`Recorded in unsupported format (${finalMimeType}). Falling back to PCM conversion.`);
-                const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-                const arrayBuffer = await audioBlob.arrayBuffer();
-                const decodedBuffer = await audioContext.decodeAudioData(arrayBuffer);
-                
-                const pcmSamples = resampleBuffer(decodedBuffer, 16000);
-
-                const samples = new Int16Array(pcmSamples.length);
-                for (let i = 0; i < pcmSamples.length; i++) {
-                    const s = Math.max(-1, Math.min(1, pcmSamples[i]));
-                    samples[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-                }
-
-                const pcmBlob = new Blob([samples.buffer], { type: 'audio/pcm' });
-                const audioUrl = URL.createObjectURL(pcmBlob);
-                const base64 = await blobToBase64(pcmBlob);
-                
-                resolve({ url: audioUrl, base64, mimeType: 'audio/pcm' });
-            }
-        } catch (error) {
-            console.error("Error during audio processing:", error);
-            reject(new Error('处理录音时出错，您的浏览器可能录制了不支持的音频格式。'));
-        } finally {
-            setIsRecording(false);
-            mediaRecorderRef.current?.stream.getTracks().forEach(track => track.stop());
+        throw new Error('录音尚未开始或已停止。');
+    }
+    const { capture, stream, gate, chunks, onPcmChunk } = pcmRecordingRef.current;
+    pcmRecordingRef.current = null;
+    try {
+        await capture.stop();
+        const tail = gate.flush();
+        if (tail) {
+            chunks.push(tail);
+            onPcmChunk?.(tail);
         }
-      };
+    } catch (error) {
+        console.error("Error during audio processing:", error);
+        throw new Error('处理录音时出错。');
+    } finally {
+        setIsRecording(false);
+        setInputLevel(null);
+        stream.getTracks().forEach(track => track.stop());
+    }
 
-      mediaRecorderRef.current.stop();
-    });
+    // Silence would only cost an evaluation to be told nothing was said.
+    if (!gate.speechDetected) {
+        throw Object.assign(new Error('没有检测到您的声音，请靠近麦克风大声朗读后再试。'), { code: NO_SPEECH });
+    }
+    return pcmRecordingResult(chunks);
   };
 
-  return { isRecording, startRecording, stopRecording };
-};
\ No newline at end of file
+  return { isRecording, inputLevel, startRecording, stopRecording };
+};
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export interface HashRoute {
+  path: string;           // Always starts with '/', e.g. '/practice/short-vowels'
+  query: URLSearchParams; // Parsed from '#/path?key=value'
+}
+
+export interface NavigateOptions {
+  replace?: boolean; // Replace the current history entry instead of pushing a new one
+}
+
+// Routes live in the hash so that deep links work on static hosting without rewrites.
+const parseHash = (): HashRoute => {
+  const raw = window.location.hash.replace(/^#/, '');
+  const [path, search = ''] = raw.split('?');
+  return {
+    path: path.startsWith('/') ? path : `/${path}`,
+    query: new URLSearchParams(search),
+  };
+};
+
+/**
+ * Tracks the hash route and returns a `navigate` function that updates it.
+ */
+export const useHashRoute = () => {
+  const [route, setRoute] = useState<HashRoute>(parseHash);
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseHash());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = useCallback((to: string, { replace = false }: NavigateOptions = {}) => {
+    if (replace) {
+      // replaceState does not fire 'hashchange', so update the route ourselves.
+      window.history.replaceState(null, '', `#${to}`);
+      setRoute(parseHash());
+    } else {
+      window.location.hash = to;
+    }
+  }, []);
+
+  return { ...route, navigate };
+};
@@ -0,0 +1,118 @@
+import { useState, useRef, useEffect } from 'react';
+import { Accent, PracticeItem } from '../types';
+import { RecordingResult } from './useAudioRecorder';
+import { ReferenceSource, fetchReferenceAudio } from '../services/referenceAudio';
+import { findSpeechBounds } from '../services/audioAnalysis';
+
+// Xunfei reports word and phoneme spans in 10 ms frames.
+export const SPAN_UNIT_SECONDS = 0.01;
+
+export type SegmentSource = 'mine' | 'reference';
+
+type Span = { start: number; end: number };
+
+/**
+ * Plays slices of the learner's recording by evaluation span, or the matching slice
+ * of the reference audio. The reference has no spans of its own, so the slice is
+ * placed at the same relative position within its speech as in the learner's.
+ */
+export const useSegmentPlayer = (recording: RecordingResult | null, item: PracticeItem, refSource: ReferenceSource, accent: Accent) => {
+  const [error, setError] = useState<string | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  const buffersRef = useRef<{ [source in SegmentSource]?: Promise<AudioBuffer> }>({});
+
+  const stop = () => {
+    try {
+      sourceNodeRef.current?.stop();
+    } catch {
+      // Already stopped.
+    }
+    sourceNodeRef.current = null;
+  };
+
+  // Decoded audio belongs to one recording and reference; drop it when either changes.
+  useEffect(() => {
+    stop();
+    buffersRef.current = {};
+    setError(null);
+  }, [recording, item, refSource, accent]);
+
+  useEffect(() => {
+    return () => {
+      stop();
+      contextRef.current?.close();
+      contextRef.current = null;
+    };
+  }, []);
+
+  const getContext = (): AudioContext => {
+    if (!contextRef.current) {
+      contextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    return contextRef.current;
+  };
+
+  const loadBuffer = (source: SegmentSource): Promise<AudioBuffer> => {
+    if (!buffersRef.current[source]) {
+      const context = getContext();
+      const promise = source === 'mine'
+        ? Promise.resolve(recording!.audioBuffer)
+        : fetchReferenceAudio(item, refSource, accent).then(data => context.decodeAudioData(data));
+      // Forget failed loads so the next click can retry.
+      buffersRef.current[source] = promise.catch((err) => {
+        delete buffersRef.current[source];
+        throw err;
+      });
+    }
+    return buffersRef.current[source]!;
+  };
+
+  const playSegment = async (span: Span, source: SegmentSource) => {
+    if (!recording) return;
+    setError(null);
+    stop();
+
+    try {
+      const context = getContext();
+      if (context.state === 'suspended') {
+        await context.resume();
+      }
+
+      const mine = await loadBuffer('mine');
+      let buffer = mine;
+      let startSeconds = span.start * SPAN_UNIT_SECONDS;
+      let endSeconds = span.end * SPAN_UNIT_SECONDS;
+
+      if (source === 'reference') {
+        buffer = await loadBuffer('reference');
+        const mineBounds = findSpeechBounds(mine.getChannelData(0), mine.sampleRate);
+        const refBounds = findSpeechBounds(buffer.getChannelData(0), buffer.sampleRate);
+        const toReference = (seconds: number) => {
+          const mineLength = Math.max(1, mineBounds.end - mineBounds.start);
+          const fraction = Math.max(0, Math.min(1, (seconds * mine.sampleRate - mineBounds.start) / mineLength));
+          return (refBounds.start + fraction * (refBounds.end - refBounds.start)) / buffer.sampleRate;
+        };
+        startSeconds = toReference(startSeconds);
+        endSeconds = toReference(endSeconds);
+      }
+
+      startSeconds = Math.min(startSeconds, buffer.duration);
+      const duration = Math.max(0.05, Math.min(endSeconds, buffer.duration) - startSeconds);
+
+      const node = context.createBufferSource();
+      node.buffer = buffer;
+      node.connect(context.destination);
+      node.onended = () => {
+        if (sourceNodeRef.current === node) sourceNodeRef.current = null;
+      };
+      sourceNodeRef.current = node;
+      node.start(0, startSeconds, duration);
+    } catch (err: any) {
+      console.error('Failed to play segment:', err);
+      setError(err.message || '无法播放该片段。');
+    }
+  };
+
+  return { playSegment, error };
+};
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+
+// The local calendar date, e.g. 'Sat Jan 10 2026'.
+const getDateKey = (): string => new Date().toDateString();
+
+/**
+ * Returns a key for the current local day that changes at midnight, so anything derived
+ * from "today" is recomputed in a tab left open overnight. Timers are throttled in
+ * background tabs, so the date is also checked whenever the tab comes back into view.
+ */
+export const useToday = (): string => {
+  const [today, setToday] = useState(getDateKey);
+
+  useEffect(() => {
+    const update = () => setToday(getDateKey());
+    const now = new Date();
+    const nextMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+    const timer = setTimeout(update, nextMidnight - now.getTime());
+
+    window.addEventListener('focus', update);
+    document.addEventListener('visibilitychange', update);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('focus', update);
+      document.removeEventListener('visibilitychange', update);
+    };
+  }, [today]);
+
+  return today;
+};
@@ -0,0 +1,213 @@
+/**
+ * @file Activation codes: generation, validation and single-use redemption.
+ *
+ * A code carries its plan duration in days plus a random nonce, and is signed with
+ * ACTIVATION_SECRET, so it cannot be guessed or altered. Redemption is recorded in a
+ * ledger whose `claim` succeeds at most once per code, even under concurrent requests.
+ */
+
+import { ActivationRedeemRequestBody, IssuedCodeRecord } from '../types';
+import { getSessionUser, saveUserRecord, toPublicUser } from './auth';
+import { allowsInMemoryStorage, getKvStore } from './kvStore';
+import { D1Like } from './d1';
+import { apiError, jsonResponse, readJson } from './http';
+import { base64UrlToBytes, hmacSha256, timingSafeEqual } from './crypto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NONCE_LENGTH = 10;     // 50 bits
+const SIGNATURE_LENGTH = 12; // 60 bits
+const MAX_DURATION_DAYS = 3650;
+
+// Ledger owner for revoked codes. Registration rejects empty identifiers, so no account can hold it.
+export const REVOKED_CODE_OWNER = '';
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud or retyped.
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export interface ParsedActivationCode {
+  code: string; // Normalized form
+  durationDays: number;
+}
+
+export interface RedemptionRecord {
+  code: string;
+  identifier: string;
+  redeemedAt: number;
+}
+
+/**
+ * Records redeemed codes. `claim` must be atomic: of any number of concurrent claims
+ * for one code, exactly one returns true.
+ */
+export interface RedemptionLedger {
+  claim(record: RedemptionRecord): Promise<boolean>;
+  get(code: string): Promise<RedemptionRecord | null>;
+}
+
+const toBase32 = (bytes: Uint8Array, length: number): string => {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += CODE_ALPHABET[bytes[i % bytes.length] % 32];
+  }
+  return result;
+};
+
+const getActivationSecret = (env: Record<string, any>): string => {
+  if (!env.ACTIVATION_SECRET) {
+    console.error('ACTIVATION_SECRET is not set.');
+    throw new Error('Server configuration error.');
+  }
+  return env.ACTIVATION_SECRET;
+};
+
+const signCode = async (secret: string, durationDays: number, nonce: string): Promise<string> => {
+  const signature = await hmacSha256(secret, `${durationDays}-${nonce}`);
+  return toBase32(base64UrlToBytes(signature), SIGNATURE_LENGTH);
+};
+
+/**
+ * Creates a new signed activation code for a plan of `durationDays` days.
+ */
+export const createActivationCode = async (env: Record<string, any>, durationDays: number): Promise<string> => {
+  if (!Number.isInteger(durationDays) || durationDays < 1 || durationDays > MAX_DURATION_DAYS) {
+    throw apiError(400, 'INVALID_DURATION', '套餐天数无效。');
+  }
+  const nonce = toBase32(crypto.getRandomValues(new Uint8Array(NONCE_LENGTH)), NONCE_LENGTH);
+  const signature = await signCode(getActivationSecret(env), durationDays, nonce);
+  return `${durationDays}-${nonce}-${signature}`;
+};
+
+/**
+ * Normalizes user input the Crockford way (case-insensitive, O→0, I/L→1, spaces ignored).
+ */
+export const normalizeActivationCode = (input: string): string =>
+  input.toUpperCase().replace(/\s+/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+
+/**
+ * Checks a code's format and signature. Returns null for anything forged or malformed.
+ */
+export const parseActivationCode = async (env: Record<string, any>, input: string): Promise<ParsedActivationCode | null> => {
+  const code = normalizeActivationCode(input);
+  const match = code.match(/^(\d{1,4})-([0-9A-Z]+)-([0-9A-Z]+)$/);
+  if (!match) return null;
+
+  const [, days, nonce, signature] = match;
+  const durationDays = Number(days);
+  if (durationDays < 1 || durationDays > MAX_DURATION_DAYS || nonce.length !== NONCE_LENGTH) return null;
+
+  const expected = await signCode(getActivationSecret(env), durationDays, nonce);
+  return timingSafeEqual(signature, expected) ? { code, durationDays } : null;
+};
+
+/**
+ * A ledger backed by a D1 (SQLite) table. `INSERT OR IGNORE` on the primary key makes
+ * the claim atomic. Expects:
+ *   CREATE TABLE redemptions (code TEXT PRIMARY KEY, identifier TEXT NOT NULL, redeemed_at INTEGER NOT NULL);
+ */
+export const createD1RedemptionLedger = (db: D1Like): RedemptionLedger => ({
+  async claim({ code, identifier, redeemedAt }) {
+    const result = await db
+      .prepare('INSERT OR IGNORE INTO redemptions (code, identifier, redeemed_at) VALUES (?, ?, ?)')
+      .bind(code, identifier, redeemedAt)
+      .run();
+    return result.meta.changes === 1;
+  },
+  async get(code) {
+    const row = await db
+      .prepare('SELECT code, identifier, redeemed_at FROM redemptions WHERE code = ?')
+      .bind(code)
+      .first<{ code: string; identifier: string; redeemed_at: number }>();
+    return row ? { code: row.code, identifier: row.identifier, redeemedAt: row.redeemed_at } : null;
+  },
+});
+
+/**
+ * A process-local ledger. JavaScript runs each claim to completion, so it is atomic
+ * within one isolate; use it for local runs and tests only.
+ */
+export const createMemoryRedemptionLedger = (): RedemptionLedger => {
+  const records = new Map<string, RedemptionRecord>();
+  return {
+    async claim(record) {
+      if (records.has(record.code)) return false;
+      records.set(record.code, record);
+      return true;
+    },
+    async get(code) {
+      return records.get(code) ?? null;
+    },
+  };
+};
+
+const issuedCodeKey = (code: string) => `code:${code}`;
+
+/**
+ * Issued codes are also listed in KV so admins can browse them. The ledger, not this
+ * record, decides whether a code can still be redeemed.
+ */
+export const getIssuedCode = async (env: Record<string, any>, code: string): Promise<IssuedCodeRecord | null> => {
+  const data = await getKvStore(env).get(issuedCodeKey(code));
+  return data ? JSON.parse(data) as IssuedCodeRecord : null;
+};
+
+export const saveIssuedCode = async (env: Record<string, any>, record: IssuedCodeRecord): Promise<void> => {
+  await getKvStore(env).put(issuedCodeKey(record.code), JSON.stringify(record));
+};
+
+let fallbackLedger: RedemptionLedger | null = null;
+
+/**
+ * Returns the D1-backed ledger bound as `PRONUNCIATION_DB`, or an in-memory one for local
+ * runs. An in-memory ledger only knows its own isolate's redemptions, so it could never
+ * enforce single use in production.
+ */
+export const getRedemptionLedger = (env: Record<string, any>): RedemptionLedger => {
+  if (env.PRONUNCIATION_DB) {
+    return createD1RedemptionLedger(env.PRONUNCIATION_DB as D1Like);
+  }
+  if (!allowsInMemoryStorage(env)) {
+    console.error('PRONUNCIATION_DB is not bound.');
+    throw new Error('Server configuration error.');
+  }
+  if (!fallbackLedger) {
+    console.warn('PRONUNCIATION_DB is not bound. Falling back to an in-memory redemption ledger.');
+    fallbackLedger = createMemoryRedemptionLedger();
+  }
+  return fallbackLedger;
+};
+
+export async function handleRedeem(request: Request, env: Record<string, any>): Promise<Response> {
+  const user = await getSessionUser(request, env);
+  if (!user) {
+    throw apiError(401, 'UNAUTHENTICATED', '请先登录。');
+  }
+
+  const { code } = await readJson<ActivationRedeemRequestBody>(request);
+  const parsed = typeof code === 'string' ? await parseActivationCode(env, code) : null;
+  if (!parsed) {
+    throw apiError(400, 'INVALID_CODE', '激活码无效，请检查后重新输入。');
+  }
+
+  const now = Date.now();
+  const ledger = getRedemptionLedger(env);
+  const claimed = await ledger.claim({ code: parsed.code, identifier: user.identifier, redeemedAt: now });
+  if (!claimed) {
+    const existing = await ledger.get(parsed.code);
+    if (existing?.identifier === REVOKED_CODE_OWNER) {
+      throw apiError(410, 'CODE_REVOKED', '该激活码已作废，请联系客服。');
+    }
+    throw apiError(409, 'CODE_ALREADY_USED', '该激活码已被使用。');
+  }
+
+  const issued = await getIssuedCode(env, parsed.code);
+  if (issued) {
+    await saveIssuedCode(env, { ...issued, redeemedBy: user.identifier, redeemedAt: now });
+  }
+
+  // Stack onto any time left on an active subscription.
+  const startsAt = Math.max(now, user.subscriptionExpiresAt ?? 0);
+  const updated = { ...user, subscriptionExpiresAt: startsAt + parsed.durationDays * DAY_MS };
+  await saveUserRecord(env, updated);
+
+  return jsonResponse({ user: toPublicUser(updated), durationDays: parsed.durationDays });
+}
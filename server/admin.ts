@@ -0,0 +1,199 @@
+/**
+ * @file Admin console API: issuing and revoking activation codes, looking up users,
+ * adjusting subscriptions and reading usage statistics.
+ *
+ * Admins are accounts whose stored record has `role: 'admin'`. The role is only ever set
+ * out of band, by editing the record in KV, so registering an identifier never grants
+ * it; every route here checks the signed-in session's record.
+ */
+
+import {
+  AdminStats,
+  AdminUserSummary,
+  GenerateCodesRequestBody,
+  IssuedCodeRecord,
+  SubscriptionUpdateRequestBody,
+} from '../types';
+import { getSessionUser, getUserRecord, saveUserRecord, toPublicUser, UserRecord } from './auth';
+import {
+  createActivationCode,
+  getIssuedCode,
+  getRedemptionLedger,
+  normalizeActivationCode,
+  parseActivationCode,
+  REVOKED_CODE_OWNER,
+  saveIssuedCode,
+} from './activation';
+import { getKvStore } from './kvStore';
+import { apiError, jsonResponse, readJson } from './http';
+import { randomToken } from './crypto';
+import { getDailyUsage, toDateKey } from './usage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_BATCH_SIZE = 200;
+const MAX_EXTENSION_DAYS = 3650;
+const USER_SEARCH_LIMIT = 50;
+const CODE_LIST_LIMIT = 500;
+const USAGE_DAYS = 14;
+
+type CodeStatus = 'unused' | 'redeemed' | 'revoked';
+
+const getCodeStatus = (record: IssuedCodeRecord): CodeStatus =>
+  record.revokedAt ? 'revoked' : record.redeemedAt ? 'redeemed' : 'unused';
+
+/**
+ * Returns the signed-in admin, or throws 401/403.
+ */
+const requireAdmin = async (request: Request, env: Record<string, any>): Promise<UserRecord> => {
+  const user = await getSessionUser(request, env);
+  if (!user) {
+    throw apiError(401, 'UNAUTHENTICATED', '请先登录。');
+  }
+  if (user.role !== 'admin') {
+    throw apiError(403, 'FORBIDDEN', '该账户没有管理员权限。');
+  }
+  return user;
+};
+
+/**
+ * Reads every value under a KV prefix. Admin pages are low-traffic, so a full scan is fine.
+ */
+const readAll = async <T>(env: Record<string, any>, prefix: string): Promise<T[]> => {
+  const store = getKvStore(env);
+  const values: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await store.list({ prefix, cursor });
+    const items = await Promise.all(page.keys.map(({ name }) => store.get(name)));
+    items.forEach(item => item && values.push(JSON.parse(item) as T));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return values;
+};
+
+const toUserSummary = (user: UserRecord): AdminUserSummary => ({ ...toPublicUser(user), createdAt: user.createdAt });
+
+export async function handleGenerateCodes(request: Request, env: Record<string, any>): Promise<Response> {
+  const admin = await requireAdmin(request, env);
+  const { durationDays, count, note } = await readJson<GenerateCodesRequestBody>(request);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_SIZE) {
+    throw apiError(400, 'INVALID_COUNT', `每批数量需在 1 到 ${MAX_BATCH_SIZE} 之间。`);
+  }
+
+  const now = Date.now();
+  const batchId = `${toDateKey(now)}-${randomToken(4)}`;
+  const records: IssuedCodeRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    const record: IssuedCodeRecord = {
+      code: await createActivationCode(env, durationDays),
+      durationDays,
+      batchId,
+      createdAt: now,
+      createdBy: admin.identifier,
+      ...(typeof note === 'string' && note.trim() ? { note: note.trim().slice(0, 100) } : {}),
+    };
+    await saveIssuedCode(env, record);
+    records.push(record);
+  }
+  return jsonResponse({ batchId, codes: records });
+}
+
+export async function handleListCodes(request: Request, env: Record<string, any>): Promise<Response> {
+  await requireAdmin(request, env);
+  const params = new URL(request.url).searchParams;
+  const status = params.get('status') as CodeStatus | null;
+  const query = (params.get('q') || '').trim().toUpperCase();
+  // Only codes get the look-alike folding (O→0, I/L→1); it would garble identifiers and batch ids.
+  const codeQuery = normalizeActivationCode(query);
+
+  const codes = (await readAll<IssuedCodeRecord>(env, 'code:'))
+    .filter(record => !status || getCodeStatus(record) === status)
+    .filter(record => !query || record.code.includes(codeQuery)
+      || record.batchId.toUpperCase().includes(query) || record.redeemedBy?.toUpperCase().includes(query))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return jsonResponse({ codes: codes.slice(0, CODE_LIST_LIMIT), total: codes.length });
+}
+
+export async function handleRevokeCode(request: Request, env: Record<string, any>): Promise<Response> {
+  await requireAdmin(request, env);
+  const { code } = await readJson<{ code: string }>(request);
+  const parsed = typeof code === 'string' ? await parseActivationCode(env, code) : null;
+  if (!parsed) {
+    throw apiError(400, 'INVALID_CODE', '激活码无效。');
+  }
+
+  // Claiming the code for the revoked owner uses the same atomic step as redemption,
+  // so a code can never end up both revoked and redeemed.
+  const now = Date.now();
+  const ledger = getRedemptionLedger(env);
+  if (!await ledger.claim({ code: parsed.code, identifier: REVOKED_CODE_OWNER, redeemedAt: now })) {
+    const existing = await ledger.get(parsed.code);
+    throw existing?.identifier === REVOKED_CODE_OWNER
+      ? apiError(409, 'CODE_REVOKED', '该激活码已作废。')
+      : apiError(409, 'CODE_ALREADY_USED', `该激活码已被 ${existing?.identifier ?? '未知用户'} 使用，无法作废。`);
+  }
+
+  const issued = await getIssuedCode(env, parsed.code);
+  const record: IssuedCodeRecord = issued
+    ? { ...issued, revokedAt: now }
+    : { code: parsed.code, durationDays: parsed.durationDays, batchId: 'external', createdAt: now, createdBy: '', revokedAt: now };
+  await saveIssuedCode(env, record);
+  return jsonResponse({ code: record });
+}
+
+export async function handleSearchUsers(request: Request, env: Record<string, any>): Promise<Response> {
+  await requireAdmin(request, env);
+  const query = (new URL(request.url).searchParams.get('q') || '').trim().toLowerCase();
+
+  const users = (await readAll<UserRecord>(env, 'user:'))
+    .filter(user => !query || user.identifier.toLowerCase().includes(query))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return jsonResponse({ users: users.slice(0, USER_SEARCH_LIMIT).map(toUserSummary), total: users.length });
+}
+
+export async function handleUpdateSubscription(request: Request, env: Record<string, any>): Promise<Response> {
+  await requireAdmin(request, env);
+  const { identifier, action, days } = await readJson<SubscriptionUpdateRequestBody>(request);
+  const user = typeof identifier === 'string' ? await getUserRecord(env, identifier) : null;
+  if (!user) {
+    throw apiError(404, 'USER_NOT_FOUND', '找不到该用户。');
+  }
+
+  let updated: UserRecord;
+  if (action === 'extend') {
+    if (!Number.isInteger(days) || days! < 1 || days! > MAX_EXTENSION_DAYS) {
+      throw apiError(400, 'INVALID_DURATION', '延长天数无效。');
+    }
+    const startsAt = Math.max(Date.now(), user.subscriptionExpiresAt ?? 0);
+    updated = { ...user, subscriptionExpiresAt: startsAt + days! * DAY_MS };
+  } else if (action === 'cancel') {
+    updated = { ...user, subscriptionExpiresAt: undefined };
+  } else {
+    throw apiError(400, 'INVALID_ACTION', '未知操作。');
+  }
+
+  await saveUserRecord(env, updated);
+  return jsonResponse({ user: toUserSummary(updated) });
+}
+
+export async function handleStats(request: Request, env: Record<string, any>): Promise<Response> {
+  await requireAdmin(request, env);
+  const now = Date.now();
+  const [users, codes, usage] = await Promise.all([
+    readAll<UserRecord>(env, 'user:'),
+    readAll<IssuedCodeRecord>(env, 'code:'),
+    getDailyUsage(env, USAGE_DAYS, now),
+  ]);
+
+  const stats: AdminStats = {
+    users: users.length,
+    activeSubscriptions: users.filter(user => (user.subscriptionExpiresAt ?? 0) > now).length,
+    codesIssued: codes.filter(code => code.batchId !== 'external').length,
+    codesRedeemed: codes.filter(code => getCodeStatus(code) === 'redeemed').length,
+    codesRevoked: codes.filter(code => getCodeStatus(code) === 'revoked').length,
+    usage,
+  };
+  return jsonResponse(stats);
+}
@@ -0,0 +1,178 @@
+/**
+ * @file Account registration, login and signed sessions for the API proxy.
+ *
+ * Passwords are stored as salted PBKDF2 hashes. A session is an HMAC-signed token in
+ * an HttpOnly cookie; its id is also kept in the KV store so logout revokes it
+ * immediately rather than waiting for the token to expire.
+ */
+
+import { AuthRequestBody, User } from '../types';
+import { getKvStore } from './kvStore';
+import { apiError, getCookie, jsonResponse, readJson } from './http';
+import { base64UrlToBytes, bytesToBase64Url, hmacSha256, pbkdf2, randomToken, timingSafeEqual } from './crypto';
+
+// Cloudflare Workers cap PBKDF2 at 100k iterations.
+const PBKDF2_ITERATIONS = 100000;
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const SESSION_COOKIE = 'pc_session';
+const MIN_PASSWORD_LENGTH = 6;
+const MAX_IDENTIFIER_LENGTH = 64;
+
+export interface UserRecord {
+  identifier: string;
+  passwordHash: string;
+  salt: string;
+  iterations: number;
+  createdAt: number;
+  subscriptionExpiresAt?: number; // Unix ms, set when an activation code is redeemed
+  role?: 'admin'; // Set by hand in KV, never through the API; see server/admin.ts
+}
+
+interface SessionPayload {
+  sid: string;
+  sub: string; // User identifier
+  exp: number; // Unix seconds
+}
+
+const userKey = (identifier: string) => `user:${identifier}`;
+const sessionKey = (sid: string) => `session:${sid}`;
+
+export const getUserRecord = async (env: Record<string, any>, identifier: string): Promise<UserRecord | null> => {
+  const data = await getKvStore(env).get(userKey(identifier));
+  return data ? JSON.parse(data) as UserRecord : null;
+};
+
+export const saveUserRecord = async (env: Record<string, any>, user: UserRecord): Promise<void> => {
+  await getKvStore(env).put(userKey(user.identifier), JSON.stringify(user));
+};
+
+export const toPublicUser = (user: UserRecord): User => ({
+  identifier: user.identifier,
+  subscriptionExpiresAt: user.subscriptionExpiresAt ?? null,
+});
+
+const getSessionSecret = (env: Record<string, any>): string => {
+  if (!env.SESSION_SECRET) {
+    console.error('SESSION_SECRET is not set.');
+    throw new Error('Server configuration error.');
+  }
+  return env.SESSION_SECRET;
+};
+
+const signSession = async (env: Record<string, any>, payload: SessionPayload): Promise<string> => {
+  const body = bytesToBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await hmacSha256(getSessionSecret(env), body);
+  return `${body}.${signature}`;
+};
+
+const verifySessionToken = async (env: Record<string, any>, token: string): Promise<SessionPayload | null> => {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = await hmacSha256(getSessionSecret(env), body);
+  if (!timingSafeEqual(signature, expected)) return null;
+
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlToBytes(body))) as SessionPayload;
+    return payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+const sessionCookie = (token: string, maxAge: number) =>
+  `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAge}`;
+
+const startSession = async (env: Record<string, any>, user: UserRecord): Promise<Response> => {
+  const sid = randomToken(16);
+  const exp = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  await getKvStore(env).put(sessionKey(sid), user.identifier, { expirationTtl: SESSION_TTL_SECONDS });
+  const token = await signSession(env, { sid, sub: user.identifier, exp });
+  return jsonResponse({ user: toPublicUser(user) }, 200, { 'Set-Cookie': sessionCookie(token, SESSION_TTL_SECONDS) });
+};
+
+/**
+ * Returns the id of the request's session if its token carries a valid signature and
+ * has not expired, or null. Cheaper than `getSessionUser`, as it reads nothing from KV.
+ */
+export const getVerifiedSessionId = async (request: Request, env: Record<string, any>): Promise<string | null> => {
+  const token = getCookie(request, SESSION_COOKIE);
+  const payload = token ? await verifySessionToken(env, token) : null;
+  return payload?.sid ?? null;
+};
+
+/**
+ * Returns the signed-in user for a request, or null when there is no valid session.
+ */
+export const getSessionUser = async (request: Request, env: Record<string, any>): Promise<UserRecord | null> => {
+  const token = getCookie(request, SESSION_COOKIE);
+  if (!token) return null;
+
+  const payload = await verifySessionToken(env, token);
+  if (!payload) return null;
+
+  // A revoked (logged out) session is gone from the store even if its token is still valid.
+  const identifier = await getKvStore(env).get(sessionKey(payload.sid));
+  if (identifier !== payload.sub) return null;
+
+  return getUserRecord(env, payload.sub);
+};
+
+const readCredentials = async (request: Request): Promise<AuthRequestBody> => {
+  const { identifier, password } = await readJson<AuthRequestBody>(request);
+  const trimmed = typeof identifier === 'string' ? identifier.trim() : '';
+  if (!trimmed || trimmed.length > MAX_IDENTIFIER_LENGTH || typeof password !== 'string' || !password) {
+    throw apiError(400, 'INVALID_CREDENTIALS_FORMAT', '请输入手机号和密码。');
+  }
+  return { identifier: trimmed, password };
+};
+
+export async function handleRegister(request: Request, env: Record<string, any>): Promise<Response> {
+  const { identifier, password } = await readCredentials(request);
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw apiError(400, 'WEAK_PASSWORD', `密码长度至少需要${MIN_PASSWORD_LENGTH}位。`);
+  }
+  if (await getUserRecord(env, identifier)) {
+    throw apiError(409, 'USER_EXISTS', '该手机号已被注册。');
+  }
+
+  const salt = randomToken(16);
+  const user: UserRecord = {
+    identifier,
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    passwordHash: await pbkdf2(password, salt, PBKDF2_ITERATIONS),
+    createdAt: Date.now(),
+  };
+  await saveUserRecord(env, user);
+  return startSession(env, user);
+}
+
+export async function handleLogin(request: Request, env: Record<string, any>): Promise<Response> {
+  const { identifier, password } = await readCredentials(request);
+  const user = await getUserRecord(env, identifier);
+
+  // Hash even for unknown accounts so the response time does not reveal which exist.
+  const hash = await pbkdf2(password, user?.salt ?? 'unknown-user', user?.iterations ?? PBKDF2_ITERATIONS);
+  if (!user || !timingSafeEqual(hash, user.passwordHash)) {
+    throw apiError(401, 'INVALID_CREDENTIALS', '手机号或密码不正确。');
+  }
+  return startSession(env, user);
+}
+
+export async function handleLogout(request: Request, env: Record<string, any>): Promise<Response> {
+  const token = getCookie(request, SESSION_COOKIE);
+  const payload = token ? await verifySessionToken(env, token) : null;
+  if (payload) {
+    await getKvStore(env).delete(sessionKey(payload.sid));
+  }
+  return jsonResponse({ ok: true }, 200, { 'Set-Cookie': sessionCookie('', 0) });
+}
+
+export async function handleMe(request: Request, env: Record<string, any>): Promise<Response> {
+  const user = await getSessionUser(request, env);
+  if (!user) {
+    throw apiError(401, 'UNAUTHENTICATED', '请先登录。');
+  }
+  return jsonResponse({ user: toPublicUser(user) });
+}
@@ -0,0 +1,54 @@
+/**
+ * @file CORS for the API proxy. Same-origin requests always pass; cross-origin browser
+ * requests are only allowed from origins listed in ALLOWED_ORIGINS (comma-separated).
+ */
+
+export interface OriginCheck {
+  allowed: boolean;
+  corsOrigin: string | null; // Set when the response must carry CORS headers for this origin
+}
+
+const getAllowedOrigins = (env: Record<string, any>): string[] =>
+  String(env.ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+
+/**
+ * Classifies a request by its Origin header. Requests without one (same-origin GETs,
+ * non-browser clients) are left to the rate limiter.
+ */
+export const checkOrigin = (request: Request, env: Record<string, any>): OriginCheck => {
+  const origin = request.headers.get('Origin');
+  if (!origin || origin === new URL(request.url).origin) {
+    return { allowed: true, corsOrigin: null };
+  }
+  return getAllowedOrigins(env).includes(origin)
+    ? { allowed: true, corsOrigin: origin }
+    : { allowed: false, corsOrigin: null };
+};
+
+export const corsHeaders = (origin: string): Record<string, string> => ({
+  'Access-Control-Allow-Origin': origin,
+  'Access-Control-Allow-Credentials': 'true',
+  'Access-Control-Expose-Headers': 'Retry-After, X-Quota-Remaining',
+  'Vary': 'Origin',
+});
+
+/**
+ * Answers a preflight (OPTIONS) request.
+ */
+export const preflightResponse = (check: OriginCheck): Response => {
+  if (!check.allowed) {
+    return new Response(null, { status: 403 });
+  }
+  return new Response(null, {
+    status: 204, // No Content
+    headers: {
+      ...(check.corsOrigin ? corsHeaders(check.corsOrigin) : {}),
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400', // Cache preflight response for 1 day
+    },
+  });
+};
@@ -0,0 +1,67 @@
+/**
+ * @file Expiring counters for quotas and usage statistics.
+ *
+ * With a D1 binding every increment is a single atomic statement, so a quota cannot be
+ * overrun by concurrent requests. Without one, counters fall back to the KV store,
+ * where read-then-write increments can undercount under heavy concurrency.
+ */
+
+import { D1Like } from './d1';
+import { getKvStore, KeyValueStore } from './kvStore';
+
+export interface CounterStore {
+  /** Adds `amount` (may be negative) and returns the new value. */
+  increment(key: string, amount: number, ttlSeconds: number): Promise<number>;
+  get(key: string): Promise<number>;
+}
+
+/**
+ * Counters in a D1 table. Expects:
+ *   CREATE TABLE counters (key TEXT PRIMARY KEY, count INTEGER NOT NULL, expires_at INTEGER NOT NULL);
+ */
+export const createD1CounterStore = (db: D1Like, now: () => number = Date.now): CounterStore => ({
+  async increment(key, amount, ttlSeconds) {
+    const time = now();
+    // An expired row restarts from `amount` instead of adding to the stale count.
+    const row = await db
+      .prepare(
+        `INSERT INTO counters (key, count, expires_at) VALUES (?1, ?2, ?3)
+         ON CONFLICT(key) DO UPDATE SET
+           count = CASE WHEN expires_at <= ?4 THEN ?2 ELSE count + ?2 END,
+           expires_at = CASE WHEN expires_at <= ?4 THEN ?3 ELSE expires_at END
+         RETURNING count`
+      )
+      .bind(key, amount, time + ttlSeconds * 1000, time)
+      .first<{ count: number }>();
+    return row?.count ?? amount;
+  },
+  async get(key) {
+    const row = await db
+      .prepare('SELECT count FROM counters WHERE key = ? AND expires_at > ?')
+      .bind(key, now())
+      .first<{ count: number }>();
+    return row?.count ?? 0;
+  },
+});
+
+/**
+ * Counters stored as KV strings. Not atomic; see the file comment.
+ */
+export const createKvCounterStore = (store: KeyValueStore): CounterStore => ({
+  async increment(key, amount, ttlSeconds) {
+    const count = (Number(await store.get(key)) || 0) + amount;
+    await store.put(key, String(count), { expirationTtl: ttlSeconds });
+    return count;
+  },
+  async get(key) {
+    return Number(await store.get(key)) || 0;
+  },
+});
+
+/**
+ * Returns D1-backed counters when `PRONUNCIATION_DB` is bound, otherwise KV-backed ones.
+ */
+export const getCounterStore = (env: Record<string, any>): CounterStore =>
+  env.PRONUNCIATION_DB
+    ? createD1CounterStore(env.PRONUNCIATION_DB as D1Like)
+    : createKvCounterStore(getKvStore(env));
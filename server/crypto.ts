@@ -0,0 +1,68 @@
+/**
+ * @file WebCrypto helpers for password hashing and token signing.
+ */
+
+const encoder = new TextEncoder();
+
+export const bytesToBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((value.length + 3) % 4);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const randomToken = (byteLength: number = 32): string =>
+  bytesToBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+/**
+ * Compares two strings without exiting early, so response time leaks nothing about
+ * how much of a secret matched.
+ */
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i % left.length] ?? 0) ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+};
+
+/**
+ * Derives a password hash with PBKDF2-HMAC-SHA256.
+ */
+export const pbkdf2 = async (password: string, salt: string, iterations: number): Promise<string> => {
+  const keyMaterial = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations },
+    keyMaterial,
+    256
+  );
+  return bytesToBase64Url(new Uint8Array(bits));
+};
+
+/**
+ * Signs a message with HMAC-SHA256 and returns the base64url signature.
+ */
+export const hmacSha256 = async (secret: string, message: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return bytesToBase64Url(new Uint8Array(signature));
+};
@@ -0,0 +1,13 @@
+/**
+ * @file Minimal shape of the Cloudflare D1 binding (`PRONUNCIATION_DB`) used by the
+ * proxy, so the server code does not depend on the workers type package.
+ */
+
+export interface D1Like {
+  prepare(query: string): {
+    bind(...values: unknown[]): {
+      run(): Promise<{ meta: { changes: number } }>;
+      first<T>(): Promise<T | null>;
+    };
+  };
+}
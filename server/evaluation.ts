@@ -0,0 +1,261 @@
+/**
+ * @file Pronunciation evaluation behind a provider interface.
+ *
+ * The route handlers only know about `EvaluationProvider`; EVALUATION_PROVIDER picks
+ * the implementation ('xunfei' by default, or 'mock' for a deterministic local stand-in
+ * that needs no credentials).
+ *
+ * Recordings arrive either whole, as a POST to /api/evaluation, or as they are spoken,
+ * over the /api/evaluation/stream WebSocket (see EvaluationStreamClientMessage).
+ */
+
+import {
+  Accent,
+  EvaluationRequestBody,
+  EvaluationResult,
+  EvaluationStreamClientMessage,
+  EvaluationStreamServerMessage,
+  PracticeLevel,
+} from '../types';
+import { apiError, ApiError, jsonResponse, readJson } from './http';
+import { toBase64 } from './xunfeiAuth';
+import { createWebSocketPair, webSocketResponse } from './workersWebSocket';
+import { createXunfeiEvaluationProvider } from './xunfeiEvaluationProvider';
+import { createMockEvaluationProvider } from './mockEvaluationProvider';
+
+// How much of the reference text is scored as a unit.
+export type EvaluationMode = 'word' | 'sentence' | 'chapter';
+
+export interface EvaluationInput {
+  audioBase64: string;
+  audioMimeType: string; // 'audio/mpeg' or 'audio/pcm' (16 kHz, 16-bit mono)
+  referenceText: string;
+  mode: EvaluationMode;
+  accent: Accent;
+}
+
+export type EvaluationStreamInput = Omit<EvaluationInput, 'audioBase64' | 'audioMimeType'>;
+
+/** A scoring session fed with audio while the learner is still speaking. */
+export interface EvaluationStream {
+  /** Appends a chunk of 16 kHz, 16-bit mono PCM. */
+  sendAudio(pcm: Uint8Array): void;
+  /** Marks the end of the audio and resolves with the score. */
+  finish(): Promise<EvaluationResult>;
+  /** Ends the session without a result. */
+  abort(): void;
+}
+
+export interface EvaluationProvider {
+  readonly name: string;
+  /** Scores a recording. Failures are thrown as errors with a machine-readable `code`. */
+  evaluate(input: EvaluationInput): Promise<EvaluationResult>;
+  /** Opens a streaming session. Providers without one are fed the whole clip on finish. */
+  startStream?(input: EvaluationStreamInput): Promise<EvaluationStream>;
+}
+
+/**
+ * Picks the evaluation mode for a practice level.
+ * Phonemes and words are scored as a single word; phrases and single sentences use
+ * sentence mode, and reference texts spanning several sentences use chapter mode.
+ */
+export function getEvaluationMode(level: PracticeLevel | undefined, referenceText: string): EvaluationMode {
+  if (level === PracticeLevel.Phrases) {
+    return 'sentence';
+  }
+  if (level === PracticeLevel.Sentences) {
+    // More than one sentence-ending mark followed by more text means a passage.
+    return /[.!?]\s+\S/.test(referenceText.trim()) ? 'chapter' : 'sentence';
+  }
+  return 'word';
+}
+
+const providerFactories: { [name: string]: (env: Record<string, any>) => EvaluationProvider } = {
+  xunfei: createXunfeiEvaluationProvider,
+  mock: createMockEvaluationProvider,
+};
+
+export const getEvaluationProvider = (env: Record<string, any>): EvaluationProvider => {
+  const name = String(env.EVALUATION_PROVIDER || 'xunfei').toLowerCase();
+  const factory = providerFactories[name];
+  if (!factory) {
+    console.error(`Unknown EVALUATION_PROVIDER "${name}".`);
+    throw new Error('Server configuration error.');
+  }
+  return factory(env);
+};
+
+const ACCENTS: Accent[] = ['british', 'american'];
+
+const checkAccent = (accent: Accent) => {
+  if (!ACCENTS.includes(accent)) {
+    throw apiError(400, 'BAD_REQUEST', '不支持该口音。');
+  }
+};
+
+export async function handleEvaluation(request: Request, env: Record<string, any>): Promise<Response> {
+  const { audioBase64, referenceText, audioMimeType, level, accent = 'british' } = await readJson<EvaluationRequestBody>(request);
+  if (typeof audioBase64 !== 'string' || !audioBase64 || typeof referenceText !== 'string' || !referenceText.trim()) {
+    throw apiError(400, 'BAD_REQUEST', '缺少录音或参考文本。');
+  }
+  checkAccent(accent);
+
+  const provider = getEvaluationProvider(env);
+  const result = await provider.evaluate({
+    audioBase64,
+    audioMimeType,
+    referenceText,
+    mode: getEvaluationMode(level, referenceText),
+    accent,
+  });
+  return jsonResponse(result);
+}
+
+// --- Streaming evaluation (WebSocket) ---
+
+// A minute of speech is far longer than any practice item; the deadline also covers a
+// client that opens a session and never ends it.
+const MAX_STREAM_BYTES = 60 * 16000 * 2;
+const MAX_STREAM_MS = 90 * 1000;
+
+/**
+ * Streaming for providers that can only score a whole clip: the chunks are collected
+ * and sent in one go when the learner stops.
+ */
+const bufferStream = (provider: EvaluationProvider, input: EvaluationStreamInput): EvaluationStream => {
+  let chunks: Uint8Array[] = [];
+  return {
+    sendAudio: pcm => { chunks.push(pcm); },
+    finish: () => {
+      const audio = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        audio.set(chunk, offset);
+        offset += chunk.length;
+      }
+      chunks = [];
+      return provider.evaluate({ ...input, audioBase64: toBase64(audio), audioMimeType: 'audio/pcm' });
+    },
+    abort: () => { chunks = []; },
+  };
+};
+
+// Mirrors the JSON error bodies the HTTP routes answer with.
+const toErrorMessage = (error: Partial<ApiError>): EvaluationStreamServerMessage => {
+  if (error.status && error.status < 500) {
+    return { type: 'error', error: error.message || '请求格式不正确。', code: error.code || 'BAD_REQUEST' };
+  }
+  console.error('Error in evaluation stream:', error);
+  return { type: 'error', error: `服务错误: ${error.message || 'An unknown error occurred.'}`, code: error.code || 'UNKNOWN' };
+};
+
+const parseStartMessage = (data: unknown): EvaluationStreamInput => {
+  let message: Partial<Extract<EvaluationStreamClientMessage, { type: 'start' }>>;
+  try {
+    message = JSON.parse(data as string);
+  } catch {
+    throw apiError(400, 'BAD_REQUEST', '请求格式不正确。');
+  }
+  const { type, referenceText, level, accent = 'british' } = message;
+  if (type !== 'start' || typeof referenceText !== 'string' || !referenceText.trim()) {
+    throw apiError(400, 'BAD_REQUEST', '缺少参考文本。');
+  }
+  checkAccent(accent);
+  return { referenceText, mode: getEvaluationMode(level, referenceText), accent };
+};
+
+/**
+ * Scores audio while it is being recorded. The client sends a 'start' message, then
+ * PCM chunks as binary frames, then 'end', without waiting for the provider to
+ * connect: chunks queue behind the connection and go on as soon as it is up, so the
+ * result is ready moments after the learner stops.
+ *
+ * The upgrade is answered before the outcome is known, so `settle` reports it: a
+ * failed or abandoned session gives the caller's quota back.
+ */
+export async function handleEvaluationStream(
+  request: Request,
+  env: Record<string, any>,
+  settle: (succeeded: boolean) => void
+): Promise<Response> {
+  if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+    throw apiError(426, 'UPGRADE_REQUIRED', '请通过 WebSocket 连接。');
+  }
+  // Resolved up front, so a configuration error fails the upgrade itself.
+  const provider = getEvaluationProvider(env);
+
+  const { client, server } = createWebSocketPair();
+  server.accept();
+
+  let stream: Promise<EvaluationStream> | null = null;
+  let receivedBytes = 0;
+  let done = false;
+  const send = (message: EvaluationStreamServerMessage) => server.send(JSON.stringify(message));
+  const end = (message: EvaluationStreamServerMessage) => {
+    if (done) return;
+    done = true;
+    clearTimeout(deadline);
+    settle(message.type === 'result');
+    send(message);
+    server.close(1000, message.type === 'result' ? 'Completed' : 'Failed');
+  };
+  const fail = (error: Partial<ApiError>) => {
+    stream?.then(session => session.abort()).catch(() => {});
+    end(toErrorMessage(error));
+  };
+  const deadline = setTimeout(() => fail(apiError(400, 'RECORDING_TOO_LONG', '录音时间过长。')), MAX_STREAM_MS);
+
+  server.addEventListener('message', (event: MessageEvent) => {
+    if (done) return;
+    if (!stream) {
+      try {
+        const input = parseStartMessage(event.data);
+        stream = provider.startStream ? provider.startStream(input) : Promise.resolve(bufferStream(provider, input));
+      } catch (error: any) {
+        fail(error);
+        return;
+      }
+      stream.catch(fail);
+      return;
+    }
+
+    if (event.data instanceof ArrayBuffer) {
+      receivedBytes += event.data.byteLength;
+      if (receivedBytes > MAX_STREAM_BYTES) {
+        fail(apiError(400, 'RECORDING_TOO_LONG', '录音时间过长。'));
+        return;
+      }
+      const chunk = new Uint8Array(event.data);
+      // Callbacks on one promise run in registration order, so chunks stay in sequence.
+      stream.then(session => session.sendAudio(chunk)).catch(() => {});
+      return;
+    }
+
+    let message: Partial<EvaluationStreamClientMessage> = {};
+    try {
+      message = JSON.parse(event.data as string);
+    } catch {}
+    if (message.type !== 'end') {
+      fail(apiError(400, 'BAD_REQUEST', '请求格式不正确。'));
+      return;
+    }
+    if (!receivedBytes) {
+      fail(apiError(400, 'BAD_REQUEST', '缺少录音或参考文本。'));
+      return;
+    }
+    stream
+      .then(session => session.finish())
+      .then(result => end({ type: 'result', result }), fail);
+  });
+
+  // The learner navigated away or lost the connection before the result was in.
+  server.addEventListener('close', () => {
+    if (done) return;
+    done = true;
+    clearTimeout(deadline);
+    stream?.then(session => session.abort()).catch(() => {});
+    settle(false);
+  });
+
+  return webSocketResponse(client);
+}
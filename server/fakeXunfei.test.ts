@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PracticeLevel } from '../types';
+import fakeXunfei from './fakeXunfei';
+import { handleEvaluation } from './evaluation';
+import { handleTts } from './tts';
+
+// Node has no WebSocketPair and will not build a 101 Response, so the sockets are an
+// in-memory pair and the upgrade response a bare object carrying the client end.
+vi.mock('./workersWebSocket', () => {
+  type Listener = (event: any) => void;
+  const createWebSocketPair = () => {
+    let closed = false;
+    const createEnd = () => {
+      const listeners: { [type: string]: Listener[] } = {};
+      // Events are delivered asynchronously and in order, as from a real socket.
+      const dispatch = (type: string, event: object) =>
+        Promise.resolve().then(() => (listeners[type] || []).forEach(listener => listener(event)));
+      return {
+        dispatch,
+        accept() {},
+        addEventListener(type: string, listener: Listener) {
+          (listeners[type] = listeners[type] || []).push(listener);
+        },
+        send(data: string) {
+          if (!closed) peerOf(this).dispatch('message', { data });
+        },
+        close(code = 1000, reason = '') {
+          if (closed) return;
+          closed = true;
+          client.dispatch('close', { code, reason });
+          server.dispatch('close', { code, reason });
+        },
+      };
+    };
+    const client = createEnd();
+    const server = createEnd();
+    const peerOf = (end: object) => (end === client ? server : client);
+    return { client, server };
+  };
+  return {
+    createWebSocketPair,
+    webSocketResponse: (client: object) => ({ status: 101, webSocket: client }),
+    getUpgradedWebSocket: (response: any) => response.webSocket ?? null,
+  };
+});
+
+const FAKE_ENV = { XUNFEI_APP_ID: 'dev', XUNFEI_API_KEY: 'dev-key', XUNFEI_API_SECRET: 'dev-secret' };
+const PROXY_ENV = {
+  ...FAKE_ENV,
+  XUNFEI_EVALUATION_ORIGIN: 'http://localhost:8790',
+  XUNFEI_TTS_ORIGIN: 'http://localhost:8790',
+};
+
+// Sends the proxy's outgoing calls to the stand-in, honouring the abort signal as fetch does.
+const fetchFromFake = (input: string, init?: RequestInit): Promise<Response> => {
+  const response = fakeXunfei.fetch(new Request(input, init), FAKE_ENV);
+  const signal = init?.signal;
+  if (!signal) return response;
+  return Promise.race([
+    response,
+    new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason))),
+  ]);
+};
+
+// How long both the evaluation socket and TTS wait for Xunfei before giving up.
+const RESPONSE_TIMEOUT_MS = 15000;
+
+/**
+ * Expects `request` to time out. The fake clock only moves once the proxy has armed its
+ * timeout, so the real hashing and signing before that never race against it.
+ */
+const expectTimeout = async (request: Promise<unknown>) => {
+  const outcome = expect(request).rejects.toMatchObject({ code: 'XF_TIMEOUT' });
+  while (vi.getTimerCount() === 0) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  await vi.advanceTimersByTimeAsync(RESPONSE_TIMEOUT_MS);
+  await outcome;
+};
+
+const evaluate = (referenceText: string, env: Record<string, any> = PROXY_ENV) =>
+  handleEvaluation(new Request('http://localhost/api/evaluation', {
+    method: 'POST',
+    body: JSON.stringify({ audioBase64: btoa('\0'.repeat(3200)), audioMimeType: 'audio/pcm', referenceText, level: PracticeLevel.Words }),
+  }), env);
+
+const synthesize = (text: string, env: Record<string, any> = PROXY_ENV) =>
+  handleTts(new Request('http://localhost/api/tts', {
+    method: 'POST',
+    body: JSON.stringify({ text }),
+  }), env);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+  vi.stubGlobal('fetch', fetchFromFake);
+  // AbortSignal.timeout runs on Node's internal timers, which the fake clock does not reach.
+  vi.spyOn(AbortSignal, 'timeout').mockImplementation((ms: number) => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new DOMException('The operation timed out.', 'TimeoutError')), ms);
+    return controller.signal;
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('handleEvaluation against the stand-in', () => {
+  it('returns the scored result', async () => {
+    const response = await evaluate('cat');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toHaveProperty('overall');
+  });
+
+  it.each([
+    ['api-error', 'XF_API_ERROR'],
+    ['malformed', 'XF_PARSE_ERROR'],
+    ['close', 'XF_CONNECTION_CLOSED'],
+  ])('reports the %s scenario as %s', async (scenario, code) => {
+    await expect(evaluate(`cat [fake:${scenario}]`)).rejects.toMatchObject({ code });
+  });
+
+  it('reports the timeout scenario as XF_TIMEOUT', async () => {
+    await expectTimeout(evaluate('cat [fake:timeout]'));
+  });
+
+  it('refuses a socket signed with another secret', async () => {
+    await expect(evaluate('cat', { ...PROXY_ENV, XUNFEI_API_SECRET: 'wrong-secret' })).rejects.toThrow(/status: 401/);
+  });
+});
+
+describe('handleTts against the stand-in', () => {
+  it('returns the synthesized audio', async () => {
+    const response = await synthesize('hello');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toHaveProperty('audioBase64');
+  });
+
+  it.each([
+    ['api-error', 'XF_API_ERROR'],
+    ['malformed', 'XF_PARSE_ERROR'],
+    ['close', 'XF_PARSE_ERROR'],
+  ])('reports the %s scenario as %s', async (scenario, code) => {
+    await expect(synthesize(`hello [fake:${scenario}]`)).rejects.toMatchObject({ code });
+  });
+
+  it('reports the timeout scenario as XF_TIMEOUT', async () => {
+    await expectTimeout(synthesize('hello [fake:timeout]'));
+  });
+
+  it('refuses a request signed with another secret', async () => {
+    const fakeFetch = vi.spyOn(fakeXunfei, 'fetch');
+    await expect(synthesize('goodbye', { ...PROXY_ENV, XUNFEI_API_SECRET: 'wrong-secret' })).rejects.toMatchObject({ code: 'XF_API_ERROR' });
+    expect((await fakeFetch.mock.results[0].value).status).toBe(401);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * @file Local stand-in for Xunfei's evaluation WebSocket and `/v2/tts` HTTP APIs, for
+ * development and integration testing without credentials or a whitelisted IP.
+ *
+ * It is a Worker module of its own; run it next to the proxy with
+ *   npx wrangler dev server/fakeXunfei.ts --port 8790 --var XUNFEI_APP_ID:… --var XUNFEI_API_KEY:… --var XUNFEI_API_SECRET:…
+ * and point the proxy at it with XUNFEI_EVALUATION_ORIGIN and XUNFEI_TTS_ORIGIN set to
+ * http://localhost:8790. Requests are signed and checked exactly as Xunfei would.
+ *
+ * Each request plays a scenario: `[fake:<scenario>]` anywhere in the reference or TTS
+ * text picks one, otherwise FAKE_XUNFEI_SCENARIO does, otherwise 'success'.
+ */
+
+import { Accent } from '../types';
+import { createMockEvaluationProvider } from './mockEvaluationProvider';
+import { EvaluationMode } from './evaluation';
+import { sha256_base64, toBase64, utf8StringToBuf } from './xunfeiAuth';
+import { createWebSocketPair, webSocketResponse, WorkerWebSocket } from './workersWebSocket';
+
+export type FakeScenario =
+  | 'success'   // A normal result
+  | 'api-error' // A non-zero header.code (XF_API_ERROR)
+  | 'malformed' // A result the proxy cannot decode (XF_PARSE_ERROR)
+  | 'close'     // The socket closes without a result (XF_CONNECTION_CLOSED)
+  | 'timeout';  // No answer at all (XF_TIMEOUT)
+
+const SCENARIOS: FakeScenario[] = ['success', 'api-error', 'malformed', 'close', 'timeout'];
+const EVALUATION_PATH = '/v1/private/s8e098720';
+const TTS_PATH = '/v2/tts';
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000; // Xunfei rejects signatures dated further off than this
+const API_ERROR = { code: 11201, message: 'licc limit' }; // Xunfei's "daily quota used up"
+
+const pickScenario = (text: string, env: Record<string, any>): FakeScenario => {
+  const marker = /\[fake:([a-z-]+)\]/.exec(text)?.[1];
+  const scenario = (marker || env.FAKE_XUNFEI_SCENARIO || 'success') as FakeScenario;
+  return SCENARIOS.includes(scenario) ? scenario : 'success';
+};
+
+const xunfeiError = (status: number, message: string): Response =>
+  new Response(JSON.stringify({ message }), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Signs the headers listed in an authorization's `headers` field, one `name: value` line
+ * each, with `request-line` standing for the HTTP request line. Deliberately written
+ * apart from `signXunfeiRequest`, which builds a fixed string: the check would otherwise
+ * accept whatever mistake the proxy makes.
+ */
+const computeSignature = async (
+  secret: string,
+  headers: string,
+  values: { [name: string]: string | undefined },
+  algorithm: 'sha1' | 'sha256'
+): Promise<string> => {
+  const lines = headers.split(' ').map(name => name === 'request-line' ? values[name] : `${name}: ${values[name]}`);
+  const hash = algorithm === 'sha1' ? 'SHA-1' : 'SHA-256';
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash }, false, ['sign']);
+  return toBase64(await crypto.subtle.sign('HMAC', key, encoder.encode(lines.join('\n'))));
+};
+
+/**
+ * Checks an `authorization` value as built by `getXunfeiAuthParams`. Returns an error
+ * response shaped like Xunfei's gateway rejections, or null if the request is signed.
+ */
+const verifyAuthorization = async (
+  env: Record<string, any>,
+  request: { host: string; date: string; method: 'GET' | 'POST'; path: string; authorization: string; digest?: string },
+  algorithm: 'sha1' | 'sha256'
+): Promise<Response | null> => {
+  let fields: Record<string, string> = {};
+  try {
+    for (const match of atob(request.authorization).matchAll(/(\w+)="([^"]*)"/g)) {
+      fields[match[1]] = match[2];
+    }
+  } catch (e) {
+    return xunfeiError(401, 'HMAC signature cannot be verified');
+  }
+
+  const dateMs = Date.parse(request.date);
+  if (!request.date || Number.isNaN(dateMs) || Math.abs(Date.now() - dateMs) > MAX_CLOCK_SKEW_MS) {
+    return xunfeiError(403, 'HMAC signature cannot be verified, a valid date or x-date header is required for HMAC Authentication');
+  }
+  const expectedHeaders = request.digest ? 'host date request-line digest' : 'host date request-line';
+  if (fields.api_key !== env.XUNFEI_API_KEY || fields.algorithm !== 'hmac-sha256' || fields.headers !== expectedHeaders) {
+    return xunfeiError(401, 'HMAC signature cannot be verified');
+  }
+
+  const expected = await computeSignature(env.XUNFEI_API_SECRET, fields.headers, {
+    host: request.host,
+    date: request.date,
+    'request-line': `${request.method} ${request.path} HTTP/1.1`,
+    digest: request.digest,
+  }, algorithm);
+  return fields.signature === expected ? null : xunfeiError(401, 'HMAC signature does not match');
+};
+
+// --- Speech evaluation (WebSocket) ---
+
+interface EvaluationSession {
+  refText: string;
+  mode: EvaluationMode;
+  accent: Accent;
+  encoding: string;
+  audio: string[];
+}
+
+const sendFrame = (ws: WorkerWebSocket, frame: object) => ws.send(JSON.stringify(frame));
+
+const sendError = (ws: WorkerWebSocket, code: number, message: string) => {
+  sendFrame(ws, { header: { code, message, sid: 'fake', status: 2 } });
+  ws.close(1000, message);
+};
+
+const finishEvaluation = async (ws: WorkerWebSocket, session: EvaluationSession, scenario: FakeScenario) => {
+  switch (scenario) {
+    case 'timeout':
+      return; // Leave the socket open and silent, like a firewall dropping the traffic.
+    case 'close':
+      ws.close(1011, 'Internal error');
+      return;
+    case 'api-error':
+      sendError(ws, API_ERROR.code, API_ERROR.message);
+      return;
+    case 'malformed':
+      sendFrame(ws, { header: { code: 0, message: 'success', sid: 'fake', status: 2 }, payload: { result: { status: 2, text: '%%not base64%%' } } });
+      ws.close(1000, 'Task completed');
+      return;
+  }
+
+  const result = await createMockEvaluationProvider({}).evaluate({
+    audioBase64: session.audio.join(''),
+    audioMimeType: session.encoding === 'raw' ? 'audio/pcm' : 'audio/mpeg',
+    referenceText: session.refText,
+    mode: session.mode,
+    accent: session.accent,
+  });
+  sendFrame(ws, {
+    header: { code: 0, message: 'success', sid: 'fake', status: 2 },
+    payload: {
+      result: { encoding: 'utf8', compress: 'raw', format: 'json', status: 2, text: toBase64(utf8StringToBuf(JSON.stringify({ result }))) },
+    },
+  });
+  ws.close(1000, 'Task completed');
+};
+
+async function handleEvaluationSocket(request: Request, env: Record<string, any>): Promise<Response> {
+  if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+    return xunfeiError(426, 'Upgrade Required');
+  }
+  const url = new URL(request.url);
+  const rejection = await verifyAuthorization(env, {
+    host: url.searchParams.get('host') || '',
+    date: url.searchParams.get('date') || '',
+    method: 'GET',
+    path: url.pathname,
+    authorization: url.searchParams.get('authorization') || '',
+  }, 'sha1');
+  if (rejection) return rejection;
+  if (url.searchParams.get('host') !== url.host) {
+    return xunfeiError(401, 'HMAC signature does not match');
+  }
+
+  const { client, server } = createWebSocketPair();
+  server.accept();
+
+  let session: EvaluationSession | null = null;
+  server.addEventListener('message', (event: MessageEvent) => {
+    let frame: any;
+    try {
+      frame = JSON.parse(event.data as string);
+    } catch (e) {
+      sendError(server, 10160, 'parse request json error');
+      return;
+    }
+    if (frame.header?.app_id !== env.XUNFEI_APP_ID) {
+      sendError(server, 10313, 'invalid appid');
+      return;
+    }
+
+    const status = frame.header.status;
+    if (!session) {
+      const st = frame.parameter?.st;
+      if (status !== 0 || typeof st?.refText !== 'string' || !['word', 'sentence', 'chapter'].includes(st?.core)) {
+        sendError(server, 10163, 'param validate error: first frame must carry status 0 and parameter.st');
+        return;
+      }
+      session = { refText: st.refText, mode: st.core, accent: st.dict_dialect === 'en_us' ? 'american' : 'british', encoding: frame.payload?.data?.encoding || 'lame', audio: [] };
+    }
+    if (typeof frame.payload?.data?.audio === 'string') {
+      session.audio.push(frame.payload.data.audio);
+    }
+    if (status === 2) {
+      if (!session.audio.length) {
+        sendError(server, 10163, 'param validate error: no audio received');
+        return;
+      }
+      finishEvaluation(server, session, pickScenario(session.refText, env));
+    }
+  });
+
+  return webSocketResponse(client);
+}
+
+// --- Text-to-speech (HTTP) ---
+
+// Half a second of 16 kHz mono silence as WAV, which every browser decodes.
+const createSilentWav = (): ArrayBuffer => {
+  const dataLength = 16000;
+  const view = new DataView(new ArrayBuffer(44 + dataLength));
+  const writeString = (offset: number, text: string) => [...text].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);     // PCM
+  view.setUint16(22, 1, true);     // Mono
+  view.setUint32(24, 16000, true); // Sample rate
+  view.setUint32(28, 32000, true); // Byte rate
+  view.setUint16(32, 2, true);     // Block align
+  view.setUint16(34, 16, true);    // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+  return view.buffer;
+};
+
+async function handleTtsRequest(request: Request, env: Record<string, any>): Promise<Response> {
+  const url = new URL(request.url);
+  const body = await request.text();
+  const digest = request.headers.get('Digest') || '';
+  const rejection = await verifyAuthorization(env, {
+    host: url.host,
+    date: request.headers.get('Date') || '',
+    method: 'POST',
+    path: url.pathname,
+    authorization: request.headers.get('Authorization') || '',
+    digest,
+  }, 'sha256');
+  if (rejection) return rejection;
+  if (digest !== `SHA-256=${await sha256_base64(utf8StringToBuf(body))}`) {
+    return xunfeiError(401, 'HMAC signature does not match');
+  }
+
+  let text = '';
+  try {
+    const frame = JSON.parse(body);
+    if (frame.header?.app_id !== env.XUNFEI_APP_ID) {
+      return Response.json({ header: { code: 10313, message: 'invalid appid', sid: 'fake' } });
+    }
+    text = new TextDecoder().decode(Uint8Array.from(atob(frame.payload.text.text), char => char.charCodeAt(0)));
+  } catch (e) {
+    return Response.json({ header: { code: 10160, message: 'parse request json error', sid: 'fake' } });
+  }
+
+  switch (pickScenario(text, env)) {
+    case 'timeout':
+      // Outlast the proxy's own TTS timeout.
+      await new Promise(resolve => setTimeout(resolve, 60000));
+      return xunfeiError(504, 'Gateway Timeout');
+    case 'close':
+      return new Response('upstream connect error', { status: 502 });
+    case 'api-error':
+      return Response.json({ header: { ...API_ERROR, sid: 'fake' } });
+    case 'malformed':
+      return new Response('<html>Bad Gateway</html>', { status: 200, headers: { 'Content-Type': 'text/html' } });
+    default:
+      return Response.json({
+        header: { code: 0, message: 'success', sid: 'fake', status: 2 },
+        payload: { audio: { encoding: 'lame', sample_rate: 16000, status: 2, audio: toBase64(createSilentWav()) } },
+      });
+  }
+}
+
+export default {
+  async fetch(request: Request, env: Record<string, any>): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    if (pathname === EVALUATION_PATH) return handleEvaluationSocket(request, env);
+    if (pathname === TTS_PATH && request.method === 'POST') return handleTtsRequest(request, env);
+    return xunfeiError(404, 'Not Found');
+  },
+};
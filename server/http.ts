@@ -0,0 +1,49 @@
+/**
+ * @file Small helpers shared by the API proxy's route handlers.
+ */
+
+// Errors thrown by handlers carry a machine-readable code; `status` marks client errors.
+export interface ApiError {
+  message: string;
+  code: string;
+  status?: number;
+  details?: Record<string, unknown>; // Extra fields merged into the JSON error body
+  headers?: Record<string, string>;  // Extra response headers, e.g. Retry-After
+}
+
+export const apiError = (
+  status: number,
+  code: string,
+  message: string,
+  extra: Pick<ApiError, 'details' | 'headers'> = {}
+): ApiError => ({ status, code, message, ...extra });
+
+export const jsonResponse = (data: unknown, status: number = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+/**
+ * Parses a JSON request body, turning malformed input into a 400 error.
+ */
+export const readJson = async <T>(request: Request): Promise<T> => {
+  try {
+    return await request.json() as T;
+  } catch {
+    throw apiError(400, 'BAD_REQUEST', '请求格式不正确。');
+  }
+};
+
+export const getCookie = (request: Request, name: string): string | null => {
+  const header = request.headers.get('Cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return null;
+};
+
+// Cloudflare sets this header on every request that reaches a Worker.
+export const getClientIp = (request: Request): string => request.headers.get('CF-Connecting-IP') || 'unknown';
@@ -0,0 +1,92 @@
+/**
+ * @file A minimal key-value storage interface for the API proxy. It is a subset of
+ * Cloudflare's KVNamespace, so a KV binding can be used directly in production,
+ * while local runs and tests use the in-memory implementation below.
+ */
+
+export interface KvPutOptions {
+  expirationTtl?: number; // Seconds until the entry expires
+}
+
+export interface KvListResult {
+  keys: { name: string }[];
+  list_complete: boolean;
+  cursor?: string;
+}
+
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: KvPutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string; limit?: number }): Promise<KvListResult>;
+}
+
+/**
+ * Creates a process-local store. Entries live only as long as the isolate does.
+ */
+export const createMemoryKvStore = (now: () => number = Date.now): KeyValueStore => {
+  const entries = new Map<string, { value: string; expiresAt: number | null }>();
+
+  const readLive = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    async get(key) {
+      return readLive(key)?.value ?? null;
+    },
+    async put(key, value, options = {}) {
+      const expiresAt = options.expirationTtl ? now() + options.expirationTtl * 1000 : null;
+      entries.set(key, { value, expiresAt });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async list({ prefix = '', cursor, limit = 1000 } = {}) {
+      const names = Array.from(entries.keys())
+        .filter(name => name.startsWith(prefix) && readLive(name))
+        .sort();
+      const start = cursor ? Number(cursor) : 0;
+      const page = names.slice(start, start + limit);
+      const next = start + page.length;
+      return {
+        keys: page.map(name => ({ name })),
+        list_complete: next >= names.length,
+        cursor: next >= names.length ? undefined : String(next),
+      };
+    },
+  };
+};
+
+/**
+ * Whether storage that lives only as long as the isolate may stand in for a missing
+ * binding. Only local runs set `ALLOW_IN_MEMORY_STORAGE`; in production each isolate
+ * would keep its own accounts and sessions and forget them on restart.
+ */
+export const allowsInMemoryStorage = (env: Record<string, any>): boolean => env.ALLOW_IN_MEMORY_STORAGE === 'true';
+
+// Shared by every request handled by this isolate when no KV binding is configured.
+let fallbackStore: KeyValueStore | null = null;
+
+/**
+ * Returns the KV binding named `PRONUNCIATION_KV`, or an in-memory store for local runs.
+ */
+export const getKvStore = (env: Record<string, any>): KeyValueStore => {
+  if (env.PRONUNCIATION_KV) {
+    return env.PRONUNCIATION_KV as KeyValueStore;
+  }
+  if (!allowsInMemoryStorage(env)) {
+    console.error('PRONUNCIATION_KV is not bound.');
+    throw new Error('Server configuration error.');
+  }
+  if (!fallbackStore) {
+    console.warn('PRONUNCIATION_KV is not bound. Falling back to an in-memory store.');
+    fallbackStore = createMemoryKvStore();
+  }
+  return fallbackStore;
+};
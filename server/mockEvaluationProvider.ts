@@ -0,0 +1,98 @@
+/**
+ * @file Deterministic stand-in for the Xunfei evaluator, for local development and
+ * demos without credentials. Scores are derived from a hash of the reference text and
+ * the audio, so the same recording always gets the same result.
+ */
+
+import { EvaluationResult, PhonemeScore, WordScore } from '../types';
+import { EvaluationInput, EvaluationProvider } from './evaluation';
+
+const PCM_BYTES_PER_SECOND = 16000 * 2; // 16 kHz, 16-bit mono
+const SPAN_UNITS_PER_SECOND = 100;      // Spans are reported in 10 ms frames, like Xunfei's
+const SECONDS_PER_WORD = 1;             // Duration guess for compressed audio
+
+// FNV-1a, enough to spread scores without pulling in a real digest.
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// A small seeded generator (mulberry32) so every score comes from the same hash.
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const estimateDurationSeconds = (input: EvaluationInput, wordCount: number): number => {
+  if (input.audioMimeType === 'audio/pcm') {
+    // Base64 carries three bytes in every four characters.
+    return Math.max(0.5, (input.audioBase64.length * 3) / 4 / PCM_BYTES_PER_SECOND);
+  }
+  return Math.max(1, wordCount) * SECONDS_PER_WORD;
+};
+
+const evaluateMock = (input: EvaluationInput): EvaluationResult => {
+  // Hash the head and tail of the audio as well as its length; hashing all of it buys nothing.
+  const audioSample = input.audioBase64.slice(0, 256) + input.audioBase64.slice(-256) + input.audioBase64.length;
+  const random = createRandom(hashString(`${input.mode}|${input.referenceText}|${audioSample}`));
+  const score = (min: number, max: number) => Math.round((min + random() * (max - min)) * 10) / 10;
+
+  const tokens = input.referenceText.split(/\s+/).map(token => token.replace(/[^A-Za-z']/g, '')).filter(Boolean);
+  const totalUnits = Math.round(estimateDurationSeconds(input, tokens.length) * SPAN_UNITS_PER_SECOND);
+  const unitsPerWord = Math.max(1, Math.floor(totalUnits / Math.max(1, tokens.length)));
+
+  const words = tokens.map((token, wordIndex): WordScore => {
+    const start = wordIndex * unitsPerWord;
+    const letters = token.replace(/'/g, '').toLowerCase().split('');
+    const unitsPerPhoneme = Math.max(1, Math.floor(unitsPerWord / Math.max(1, letters.length)));
+    const phonemes = letters.map((letter, i): PhonemeScore => ({
+      span: { start: start + i * unitsPerPhoneme, end: start + (i + 1) * unitsPerPhoneme },
+      tone_index: '',
+      phone: letter,
+      pronunciation: score(40, 100),
+      phoneme: letter,
+    }));
+    const pronunciation = phonemes.length
+      ? Math.round((phonemes.reduce((sum, phoneme) => sum + phoneme.pronunciation, 0) / phonemes.length) * 10) / 10
+      : 0;
+    return {
+      span: { start, end: start + unitsPerWord },
+      charType: 0,
+      word: token,
+      phonemes,
+      pinyin: '',
+      tone: '',
+      readType: 0,
+      pause: { duration: 0, type: 0 },
+      scores: { tone: 0, pronunciation, prominence: 0, overall: pronunciation },
+    };
+  });
+
+  const pronunciation = words.length
+    ? Math.round((words.reduce((sum, word) => sum + word.scores.pronunciation, 0) / words.length) * 10) / 10
+    : 0;
+  const fluency = score(60, 95);
+  const integrity = words.length ? 100 : 0;
+  return {
+    overall: Math.round((pronunciation * 0.6 + fluency * 0.2 + integrity * 0.2) * 10) / 10,
+    integrity,
+    fluency,
+    pronunciation,
+    words,
+    speed: score(80, 140),
+  };
+};
+
+export const createMockEvaluationProvider = (_env: Record<string, any>): EvaluationProvider => ({
+  name: 'mock',
+  async evaluate(input: EvaluationInput): Promise<EvaluationResult> {
+    return evaluateMock(input);
+  },
+});
@@ -0,0 +1,126 @@
+/**
+ * @file Daily free-tier quota for pronunciation evaluations.
+ *
+ * Subscribers are unlimited. Signed-in accounts without a subscription get a daily
+ * allowance per account. Anonymous visitors are counted per device (a random id in an
+ * HttpOnly cookie) and, since clearing cookies resets that, also per IP address.
+ * Quota is taken before the Xunfei connection opens and handed back if scoring fails.
+ */
+
+import { QuotaScope, QuotaStatus } from '../types';
+import { getSessionUser } from './auth';
+import { getCounterStore } from './counterStore';
+import { apiError, getClientIp, getCookie, jsonResponse } from './http';
+import { randomToken } from './crypto';
+import { toDateKey } from './usage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COUNTER_TTL_SECONDS = 2 * 24 * 60 * 60; // Outlives the day it counts
+export const DEVICE_COOKIE = 'pc_device';
+const DEVICE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+const DEFAULT_LIMITS = {
+  account: 10, // FREE_EVALUATIONS_PER_ACCOUNT
+  device: 3,   // FREE_EVALUATIONS_PER_DEVICE
+  ip: 30,      // FREE_EVALUATIONS_PER_IP; shared by everyone behind one NAT, so keep it generous
+};
+
+interface QuotaCounter {
+  key: string;
+  limit: number;
+}
+
+interface QuotaSubject {
+  scope: QuotaScope;
+  counters: QuotaCounter[]; // Every counter must stay within its limit; the first is the one shown
+  headers: Record<string, string>;
+}
+
+export interface QuotaGrant {
+  status: QuotaStatus;
+  headers: Record<string, string>;
+  refund(): Promise<void>;
+}
+
+const readLimit = (value: unknown, fallback: number): number => {
+  const limit = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(limit) && limit >= 0 ? limit : fallback;
+};
+
+const getNextReset = (now: number): number => (Math.floor(now / DAY_MS) + 1) * DAY_MS;
+
+const resolveSubject = async (request: Request, env: Record<string, any>, now: number): Promise<QuotaSubject> => {
+  const date = toDateKey(now);
+  const user = await getSessionUser(request, env);
+  if (user && (user.subscriptionExpiresAt ?? 0) > now) {
+    return { scope: 'subscription', counters: [], headers: {} };
+  }
+  if (user) {
+    return {
+      scope: 'account',
+      counters: [{ key: `quota:${date}:account:${user.identifier}`, limit: readLimit(env.FREE_EVALUATIONS_PER_ACCOUNT, DEFAULT_LIMITS.account) }],
+      headers: {},
+    };
+  }
+
+  const headers: Record<string, string> = {};
+  let deviceId = getCookie(request, DEVICE_COOKIE);
+  if (!deviceId || !/^[A-Za-z0-9_-]{16,64}$/.test(deviceId)) {
+    deviceId = randomToken(16);
+    headers['Set-Cookie'] = `${DEVICE_COOKIE}=${deviceId}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${DEVICE_COOKIE_MAX_AGE}`;
+  }
+  const ip = getClientIp(request);
+  return {
+    scope: 'device',
+    counters: [
+      { key: `quota:${date}:device:${deviceId}`, limit: readLimit(env.FREE_EVALUATIONS_PER_DEVICE, DEFAULT_LIMITS.device) },
+      { key: `quota:${date}:ip:${ip}`, limit: readLimit(env.FREE_EVALUATIONS_PER_IP, DEFAULT_LIMITS.ip) },
+    ],
+    headers,
+  };
+};
+
+const toStatus = (subject: QuotaSubject, counts: number[], now: number): QuotaStatus => {
+  if (subject.scope === 'subscription') {
+    return { scope: subject.scope, limit: null, remaining: null, resetsAt: getNextReset(now) };
+  }
+  const remaining = Math.min(...subject.counters.map((counter, i) => Math.max(0, counter.limit - counts[i])));
+  return { scope: subject.scope, limit: subject.counters[0].limit, remaining, resetsAt: getNextReset(now) };
+};
+
+/**
+ * Takes one evaluation from the caller's quota, or throws a 429 QUOTA_EXCEEDED error
+ * whose body carries the current `quota` status.
+ */
+export const consumeEvaluationQuota = async (request: Request, env: Record<string, any>): Promise<QuotaGrant> => {
+  const now = Date.now();
+  const subject = await resolveSubject(request, env, now);
+  const counters = getCounterStore(env);
+
+  // Increment first and check the result, so concurrent requests cannot both slip under the limit.
+  const counts = await Promise.all(subject.counters.map(counter => counters.increment(counter.key, 1, COUNTER_TTL_SECONDS)));
+  const refund = async () => {
+    await Promise.all(subject.counters.map(counter => counters.increment(counter.key, -1, COUNTER_TTL_SECONDS)));
+  };
+
+  if (subject.counters.some((counter, i) => counts[i] > counter.limit)) {
+    await refund();
+    const status = toStatus(subject, counts.map(count => count - 1), now);
+    throw apiError(429, 'QUOTA_EXCEEDED', '今日免费测评次数已用完。', {
+      details: { quota: status },
+      headers: { ...subject.headers, 'Retry-After': String(Math.ceil((status.resetsAt - now) / 1000)) },
+    });
+  }
+
+  const status = toStatus(subject, counts, now);
+  const headers = status.remaining === null ? subject.headers : { ...subject.headers, 'X-Quota-Remaining': String(status.remaining) };
+  return { status, headers, refund };
+};
+
+export async function handleQuota(request: Request, env: Record<string, any>): Promise<Response> {
+  const now = Date.now();
+  const subject = await resolveSubject(request, env, now);
+  const counters = getCounterStore(env);
+  const counts = await Promise.all(subject.counters.map(counter => counters.get(counter.key)));
+  return jsonResponse(toStatus(subject, counts, now), 200, subject.headers);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryBucketStore, enforceRateLimit, takeToken, TokenBucketConfig } from './rateLimit';
+
+const CONFIG: TokenBucketConfig = { capacity: 3, refillPerSecond: 0.5 };
+const NOW = 1_700_000_000_000;
+
+describe('takeToken', () => {
+  it('starts a new bucket full', () => {
+    expect(takeToken(null, CONFIG, NOW)).toEqual({ state: { tokens: 2, updatedAt: NOW }, allowed: true, retryAfterSeconds: 0 });
+  });
+
+  it('refills for the time elapsed, up to the capacity', () => {
+    expect(takeToken({ tokens: 0, updatedAt: NOW }, CONFIG, NOW + 2000).state.tokens).toBe(0);
+    expect(takeToken({ tokens: 0, updatedAt: NOW }, CONFIG, NOW + 3000).state.tokens).toBe(0.5);
+    expect(takeToken({ tokens: 1, updatedAt: NOW }, CONFIG, NOW + 60_000).state.tokens).toBe(2);
+  });
+
+  it('refuses with the seconds until a whole token is back', () => {
+    expect(takeToken({ tokens: 0.25, updatedAt: NOW }, CONFIG, NOW)).toEqual({
+      state: { tokens: 0.25, updatedAt: NOW },
+      allowed: false,
+      retryAfterSeconds: 2,
+    });
+  });
+
+  it('ignores a clock that went backwards', () => {
+    expect(takeToken({ tokens: 0, updatedAt: NOW }, CONFIG, NOW - 10_000).allowed).toBe(false);
+  });
+});
+
+describe('enforceRateLimit with the in-memory store', () => {
+  it('allows a burst of the capacity, then answers 429 with Retry-After', async () => {
+    const store = createMemoryBucketStore();
+    for (let i = 0; i < CONFIG.capacity; i++) {
+      await enforceRateLimit(store, 'rl:ip:1.2.3.4', CONFIG, NOW);
+    }
+    await expect(enforceRateLimit(store, 'rl:ip:1.2.3.4', CONFIG, NOW)).rejects.toMatchObject({
+      status: 429,
+      code: 'RATE_LIMITED',
+      details: { retryAfter: 2 },
+      headers: { 'Retry-After': '2' },
+    });
+  });
+
+  it('lets requests through again once the bucket has refilled', async () => {
+    const store = createMemoryBucketStore();
+    for (let i = 0; i < CONFIG.capacity; i++) {
+      await enforceRateLimit(store, 'rl:ip:1.2.3.4', CONFIG, NOW);
+    }
+    await expect(enforceRateLimit(store, 'rl:ip:1.2.3.4', CONFIG, NOW + 1000)).rejects.toMatchObject({ status: 429 });
+    await expect(enforceRateLimit(store, 'rl:ip:1.2.3.4', CONFIG, NOW + 2000)).resolves.toBeUndefined();
+  });
+
+  it('keeps a separate bucket per key', async () => {
+    const store = createMemoryBucketStore();
+    for (let i = 0; i < CONFIG.capacity; i++) {
+      await enforceRateLimit(store, 'rl:xunfei:s:first', CONFIG, NOW);
+    }
+    await expect(enforceRateLimit(store, 'rl:xunfei:s:second', CONFIG, NOW)).resolves.toBeUndefined();
+  });
+
+  it('forgets the least recently used bucket when full', async () => {
+    const store = createMemoryBucketStore(2);
+    for (let i = 0; i < CONFIG.capacity; i++) {
+      await enforceRateLimit(store, 'a', CONFIG, NOW);
+    }
+    await enforceRateLimit(store, 'b', CONFIG, NOW);
+    await enforceRateLimit(store, 'c', CONFIG, NOW);
+    await expect(enforceRateLimit(store, 'a', CONFIG, NOW)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @file Token-bucket rate limiting for the API proxy.
+ *
+ * The bucket arithmetic is a pure function; where buckets live is a `BucketStore`.
+ * With the D1 binding (`PRONUNCIATION_DB`) each request refills and takes from its
+ * bucket in one atomic statement, shared by every isolate. Without it a KV namespace
+ * bound as RATE_LIMIT_KV shares buckets too, but KV takes at most one write per key per
+ * second and cannot update atomically, so bursts lose updates. The last resort is an
+ * in-memory store per isolate, which is approximate across Cloudflare's fleet.
+ */
+
+import { D1Like } from './d1';
+import { KeyValueStore } from './kvStore';
+import { apiError, getClientIp } from './http';
+import { getVerifiedSessionId } from './auth';
+
+export interface TokenBucketConfig {
+  capacity: number;        // Burst size
+  refillPerSecond: number; // Sustained rate
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number; // Unix ms
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export interface BucketStore {
+  /** Refills the bucket at `key` and tries to take one token from it. */
+  take(key: string, config: TokenBucketConfig, now: number): Promise<TakeResult>;
+}
+
+export type RateLimitRule = 'auth' | 'xunfei';
+
+export const RATE_LIMITS: { ip: TokenBucketConfig } & Record<RateLimitRule, TokenBucketConfig> = {
+  ip: { capacity: 120, refillPerSecond: 2 },          // Every request, per client IP
+  auth: { capacity: 10, refillPerSecond: 1 / 30 },    // Login and registration, per client IP
+  xunfei: { capacity: 20, refillPerSecond: 1 / 3 },   // Evaluation and TTS, per session or IP
+};
+
+/**
+ * Refills a bucket for the time elapsed since it was last touched and tries to take one token.
+ */
+export const takeToken = (
+  state: BucketState | null,
+  config: TokenBucketConfig,
+  now: number
+): { state: BucketState; allowed: boolean; retryAfterSeconds: number } => {
+  const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const tokens = state ? Math.min(config.capacity, state.tokens + elapsedSeconds * config.refillPerSecond) : config.capacity;
+  if (tokens >= 1) {
+    return { state: { tokens: tokens - 1, updatedAt: now }, allowed: true, retryAfterSeconds: 0 };
+  }
+  return {
+    state: { tokens, updatedAt: now },
+    allowed: false,
+    retryAfterSeconds: Math.ceil((1 - tokens) / config.refillPerSecond),
+  };
+};
+
+/**
+ * Keeps buckets in a Map. Oldest entries are dropped once `maxEntries` is reached, which
+ * at worst hands a long-idle client a fresh bucket. Each take runs without yielding, so
+ * it is atomic within the isolate.
+ */
+export const createMemoryBucketStore = (maxEntries: number = 10000): BucketStore => {
+  const buckets = new Map<string, BucketState>();
+  return {
+    async take(key, config, now) {
+      const { state, ...result } = takeToken(buckets.get(key) ?? null, config, now);
+      buckets.delete(key); // Re-insert so iteration order tracks recency
+      buckets.set(key, state);
+      if (buckets.size > maxEntries) {
+        buckets.delete(buckets.keys().next().value as string);
+      }
+      return result;
+    },
+  };
+};
+
+/**
+ * Buckets in a D1 table. Expects:
+ *   CREATE TABLE rate_limits (key TEXT PRIMARY KEY, tokens REAL NOT NULL, updated_at INTEGER NOT NULL, allowed INTEGER NOT NULL);
+ */
+export const createD1BucketStore = (db: D1Like): BucketStore => ({
+  async take(key, { capacity, refillPerSecond }, now) {
+    // The SET expressions all read the row as it was, so `allowed` and `tokens` agree on
+    // the refilled amount; takeToken does the same arithmetic.
+    const row = await db
+      .prepare(
+        `INSERT INTO rate_limits (key, tokens, updated_at, allowed) VALUES (?1, ?2 - 1, ?4, 1)
+         ON CONFLICT(key) DO UPDATE SET
+           tokens = MIN(?2, tokens + MAX(0, ?4 - updated_at) / 1000.0 * ?3)
+             - (MIN(?2, tokens + MAX(0, ?4 - updated_at) / 1000.0 * ?3) >= 1),
+           allowed = MIN(?2, tokens + MAX(0, ?4 - updated_at) / 1000.0 * ?3) >= 1,
+           updated_at = ?4
+         RETURNING tokens, allowed`
+      )
+      .bind(key, capacity, refillPerSecond, now)
+      .first<{ tokens: number; allowed: number }>();
+    if (!row || row.allowed) return { allowed: true, retryAfterSeconds: 0 };
+    return { allowed: false, retryAfterSeconds: Math.ceil((1 - row.tokens) / refillPerSecond) };
+  },
+});
+
+// Cloudflare KV rejects expirations shorter than a minute.
+const MIN_KV_TTL_SECONDS = 60;
+
+/**
+ * Buckets as KV strings. Not atomic; see the file comment. A write KV turns down for
+ * coming too soon after the last one only loses that update, it does not fail the request.
+ */
+export const createKvBucketStore = (store: KeyValueStore): BucketStore => ({
+  async take(key, config, now) {
+    const data = await store.get(key);
+    const { state, ...result } = takeToken(data ? JSON.parse(data) as BucketState : null, config, now);
+    // A bucket left alone this long is full again, so it can be forgotten.
+    const ttlSeconds = Math.ceil(config.capacity / config.refillPerSecond);
+    await store.put(key, JSON.stringify(state), { expirationTtl: Math.max(MIN_KV_TTL_SECONDS, ttlSeconds) })
+      .catch(error => console.error('Failed to save rate-limit bucket:', error));
+    return result;
+  },
+});
+
+let memoryStore: BucketStore | null = null;
+
+/**
+ * Returns D1-backed buckets when `PRONUNCIATION_DB` is bound, else KV-backed ones when
+ * RATE_LIMIT_KV is, else this isolate's in-memory buckets.
+ */
+export const getBucketStore = (env: Record<string, any>): BucketStore => {
+  if (env.PRONUNCIATION_DB) {
+    return createD1BucketStore(env.PRONUNCIATION_DB as D1Like);
+  }
+  if (env.RATE_LIMIT_KV) {
+    return createKvBucketStore(env.RATE_LIMIT_KV as KeyValueStore);
+  }
+  if (!memoryStore) {
+    memoryStore = createMemoryBucketStore();
+  }
+  return memoryStore;
+};
+
+/**
+ * Picks whose bucket a request draws from: login attempts are counted per IP, Xunfei
+ * calls per signed-in session, falling back to the IP. Only a session whose signature
+ * checks out gets its own bucket; any cookie the client could make up itself, such as
+ * the anonymous device id, would hand out a fresh bucket with every request.
+ */
+export const getRateLimitKey = async (request: Request, env: Record<string, any>, rule: RateLimitRule | 'ip'): Promise<string> => {
+  const ip = getClientIp(request);
+  if (rule !== 'xunfei') return `rl:${rule}:${ip}`;
+  const sessionId = await getVerifiedSessionId(request, env);
+  return sessionId ? `rl:${rule}:s:${sessionId}` : `rl:${rule}:${ip}`;
+};
+
+/**
+ * Takes a token from the bucket at `key`, or throws a 429 RATE_LIMITED error carrying
+ * Retry-After.
+ */
+export const enforceRateLimit = async (
+  store: BucketStore,
+  key: string,
+  config: TokenBucketConfig,
+  now: number = Date.now()
+): Promise<void> => {
+  const result = await store.take(key, config, now);
+  if (!result.allowed) {
+    throw apiError(429, 'RATE_LIMITED', '请求过于频繁，请稍后再试。', {
+      details: { retryAfter: result.retryAfterSeconds },
+      headers: { 'Retry-After': String(result.retryAfterSeconds) },
+    });
+  }
+};
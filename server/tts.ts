@@ -0,0 +1,117 @@
+/**
+ * @file Text-to-speech for reference audio, synthesized by Xunfei's `/v2/tts` HTTP API
+ * and cached (see ttsCache.ts).
+ */
+
+import { TtsRequestBody, TtsVoice } from '../types';
+import { apiError, jsonResponse, readJson } from './http';
+import { getTtsCache, getTtsCacheKey } from './ttsCache';
+import { getXunfeiAuthParams, toBase64, utf8StringToBuf } from './xunfeiAuth';
+
+// Longer than any practice sentence, short enough that the endpoint is useless as a free TTS service.
+const MAX_TTS_TEXT_LENGTH = 200;
+// XUNFEI_TTS_ORIGIN points TTS elsewhere, e.g. at the local stand-in in server/fakeXunfei.ts.
+const DEFAULT_TTS_ORIGIN = 'https://tts-api.xfyun.cn';
+const TTS_PATH = '/v2/tts';
+const TTS_TIMEOUT_MS = 15000;
+
+const TTS_VOICES: TtsVoice[] = [
+  'catherine', // British female
+  'henry',     // British male
+  'x4_EnUs_Laura_education', // American female
+];
+const MIN_SPEED = 0.5;
+const MAX_SPEED = 2;
+
+/**
+ * Validates the optional synthesis options and maps them onto Xunfei's parameters.
+ * Xunfei's speed and volume run from 0 to 100 with 50 as normal; speed is mapped
+ * linearly, so 0.5× is 25 and 2× is 100.
+ */
+const getSynthesisParams = ({ speed = 1, volume = 50, voice = 'catherine' }: TtsRequestBody) => {
+  if (typeof speed !== 'number' || !(speed >= MIN_SPEED && speed <= MAX_SPEED)) {
+    throw apiError(400, 'TTS_BAD_PARAMS', `语速需在 ${MIN_SPEED} 到 ${MAX_SPEED} 倍之间。`);
+  }
+  if (!Number.isInteger(volume) || volume < 0 || volume > 100) {
+    throw apiError(400, 'TTS_BAD_PARAMS', '音量需为 0 到 100 之间的整数。');
+  }
+  if (!TTS_VOICES.includes(voice)) {
+    throw apiError(400, 'TTS_BAD_PARAMS', '不支持该发音人。');
+  }
+  return { ent: 'en_vip', vcn: voice, aue: 'lame', tte: 'UTF8', speed: Math.round(50 * speed), volume };
+};
+
+export async function handleTts(request: Request, env: Record<string, any>): Promise<Response> {
+    const body = await readJson<TtsRequestBody>(request);
+    const { text } = body;
+    if (typeof text !== 'string' || !text.trim()) {
+        throw apiError(400, 'TTS_TEXT_REQUIRED', '请提供要朗读的文本。');
+    }
+    if (text.length > MAX_TTS_TEXT_LENGTH) {
+        throw apiError(400, 'TTS_TEXT_TOO_LONG', `朗读文本不能超过 ${MAX_TTS_TEXT_LENGTH} 个字符。`);
+    }
+
+    const ttsParams = getSynthesisParams(body);
+    const cache = getTtsCache(env);
+    const cacheKey = await getTtsCacheKey(text, ttsParams);
+    const cachedAudio = await cache.get(cacheKey).catch(() => null); // A broken cache must not break TTS
+    if (cachedAudio) {
+        return jsonResponse({ audioBase64: cachedAudio }, 200, { 'X-TTS-Cache': 'HIT' });
+    }
+
+    const origin = String(env.XUNFEI_TTS_ORIGIN || DEFAULT_TTS_ORIGIN).replace(/\/$/, '');
+    const host = new URL(origin).host;
+
+    const ttsRequestBody = JSON.stringify({
+        header: { app_id: env.XUNFEI_APP_ID },
+        parameter: {
+            tts: ttsParams
+        },
+        payload: {
+            text: {
+                encoding: 'UTF8', status: 2, text: toBase64(utf8StringToBuf(text))
+            }
+        }
+    });
+
+    // Use HMAC-SHA256 for the modern v2 TTS service.
+    const { date, authorization, digestHeader } = await getXunfeiAuthParams(env, host, TTS_PATH, 'POST', ttsRequestBody, 'sha256');
+
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json', 'Host': host, 'Date': date, 'Authorization': authorization
+    };
+    if (digestHeader) headers['Digest'] = digestHeader;
+
+    let response: Response;
+    try {
+        response = await fetch(`${origin}${TTS_PATH}`, {
+            method: 'POST',
+            headers,
+            body: ttsRequestBody,
+            signal: AbortSignal.timeout(TTS_TIMEOUT_MS)
+        });
+    } catch (e: any) {
+        if (e?.name === 'TimeoutError') {
+            throw { message: '语音合成服务响应超时。', code: 'XF_TIMEOUT' };
+        }
+        throw { message: '与语音合成服务连接失败。', code: 'XF_CONNECTION_FAILED' };
+    }
+
+    let responseData: any;
+    try {
+        responseData = await response.json();
+    } catch (e) {
+        throw { message: '解析语音合成响应失败。', code: 'XF_PARSE_ERROR' };
+    }
+
+    if (responseData.header?.code !== 0) {
+        throw { message: `音频合成失败 (${responseData.header?.code || 'N/A'}): ${responseData.header?.message || '未知错误'}`, code: 'XF_API_ERROR' };
+    }
+    if (typeof responseData.payload?.audio?.audio !== 'string') {
+        throw { message: '解析语音合成响应失败。', code: 'XF_PARSE_ERROR' };
+    }
+
+    const audioBase64: string = responseData.payload.audio.audio;
+    await cache.put(cacheKey, audioBase64).catch(error => console.error('Failed to cache TTS audio:', error));
+    return jsonResponse({ audioBase64 }, 200, { 'X-TTS-Cache': 'MISS' });
+}
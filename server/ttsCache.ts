@@ -0,0 +1,77 @@
+/**
+ * @file Cache for synthesized TTS audio. The practice items are a fixed set of short
+ * strings, so after a warm-up almost every request can be answered without Xunfei.
+ *
+ * Entries are keyed by a digest of the text and every synthesis parameter. Binding a
+ * KV namespace as TTS_CACHE_KV shares the cache between isolates; without it each
+ * isolate keeps a small in-memory cache.
+ */
+
+import { KeyValueStore } from './kvStore';
+import { bytesToBase64Url } from './crypto';
+
+export interface TtsCache {
+  get(key: string): Promise<string | null>; // Base64 audio
+  put(key: string, audioBase64: string): Promise<void>;
+}
+
+const TTS_CACHE_TTL_SECONDS = 30 * 24 * 60 * 60;
+// Practice audio is a few KB; anything far larger is not worth keeping.
+const MAX_ENTRY_LENGTH = 512 * 1024;
+
+/**
+ * Builds the cache key for a synthesis request. Parameters are sorted so the key does
+ * not depend on the order they were written in.
+ */
+export const getTtsCacheKey = async (text: string, params: Record<string, string | number>): Promise<string> => {
+  const canonicalParams = Object.keys(params).sort().map(name => `${name}=${params[name]}`).join('&');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${canonicalParams}\n${text}`));
+  return `tts:${bytesToBase64Url(new Uint8Array(digest))}`;
+};
+
+/**
+ * Keeps entries in a Map, dropping the least recently used once `maxEntries` is reached.
+ */
+export const createMemoryTtsCache = (maxEntries: number = 500, now: () => number = Date.now): TtsCache => {
+  const entries = new Map<string, { audioBase64: string; expiresAt: number }>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= now()) return null;
+      entries.set(key, entry); // Re-insert so iteration order tracks recency
+      return entry.audioBase64;
+    },
+    async put(key, audioBase64) {
+      if (audioBase64.length > MAX_ENTRY_LENGTH) return;
+      entries.delete(key);
+      entries.set(key, { audioBase64, expiresAt: now() + TTS_CACHE_TTL_SECONDS * 1000 });
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+  };
+};
+
+export const createKvTtsCache = (store: KeyValueStore): TtsCache => ({
+  async get(key) {
+    return store.get(key);
+  },
+  async put(key, audioBase64) {
+    if (audioBase64.length > MAX_ENTRY_LENGTH) return;
+    await store.put(key, audioBase64, { expirationTtl: TTS_CACHE_TTL_SECONDS });
+  },
+});
+
+let memoryCache: TtsCache | null = null;
+
+export const getTtsCache = (env: Record<string, any>): TtsCache => {
+  if (env.TTS_CACHE_KV) {
+    return createKvTtsCache(env.TTS_CACHE_KV as KeyValueStore);
+  }
+  if (!memoryCache) {
+    memoryCache = createMemoryTtsCache();
+  }
+  return memoryCache;
+};
@@ -0,0 +1,32 @@
+/**
+ * @file Daily usage counters for the admin dashboard.
+ */
+
+import { DailyUsage } from '../types';
+import { getCounterStore } from './counterStore';
+
+export type UsageKind = 'evaluation' | 'tts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+export const toDateKey = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+const usageKey = (date: string, kind: UsageKind) => `usage:${date}:${kind}`;
+
+export const recordUsage = async (env: Record<string, any>, kind: UsageKind, now: number = Date.now()): Promise<void> => {
+  await getCounterStore(env).increment(usageKey(toDateKey(now), kind), 1, RETENTION_SECONDS);
+};
+
+/**
+ * Returns usage for the last `days` days, oldest first.
+ */
+export const getDailyUsage = async (env: Record<string, any>, days: number, now: number = Date.now()): Promise<DailyUsage[]> => {
+  const counters = getCounterStore(env);
+  const dates = Array.from({ length: days }, (_, i) => toDateKey(now - (days - 1 - i) * DAY_MS));
+  return Promise.all(dates.map(async date => ({
+    date,
+    evaluation: await counters.get(usageKey(date, 'evaluation')),
+    tts: await counters.get(usageKey(date, 'tts')),
+  })));
+};
@@ -0,0 +1,35 @@
+/**
+ * @file Minimal typings for the Cloudflare Workers WebSocket API, which the DOM lib
+ * this project compiles against does not describe.
+ */
+
+export interface WorkerWebSocket {
+  accept(): void;
+  send(data: string | ArrayBuffer): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  addEventListener(type: 'close', listener: (event: CloseEvent) => void): void;
+  addEventListener(type: 'error', listener: () => void): void;
+}
+
+declare const WebSocketPair: { new (): { 0: WorkerWebSocket; 1: WorkerWebSocket } };
+
+/**
+ * Creates a connected pair: `client` goes back in the 101 response, `server` stays in the worker.
+ */
+export const createWebSocketPair = (): { client: WorkerWebSocket; server: WorkerWebSocket } => {
+  const pair = new WebSocketPair();
+  return { client: pair[0], server: pair[1] };
+};
+
+/**
+ * Builds the 101 response that hands `client` to the caller.
+ */
+export const webSocketResponse = (client: WorkerWebSocket, headers: Record<string, string> = {}): Response =>
+  new Response(null, { status: 101, webSocket: client, headers } as ResponseInit);
+
+/**
+ * Returns the socket a Workers `fetch` with an `Upgrade: websocket` header produced, if any.
+ */
+export const getUpgradedWebSocket = (response: Response): WorkerWebSocket | null =>
+  (response as Response & { webSocket?: WorkerWebSocket | null }).webSocket ?? null;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getXunfeiAuthParams, signXunfeiRequest } from './xunfeiAuth';
+
+// Known answers worked out with Node's own crypto module, independently of the code under test.
+const DATE = 'Wed, 10 Jul 2019 07:35:43 GMT';
+const TTS_BODY = '{"text":"hello"}';
+const TTS_DIGEST = 'SHA-256=y7vc0naSNE3l26s6vKukE/sPRTByZ95wgUAVdt8csXY=';
+
+describe('signXunfeiRequest', () => {
+  it('signs the host, date and request line with HMAC-SHA1 for the evaluation socket', async () => {
+    const signature = await signXunfeiRequest('dev-secret', {
+      host: 'cn-east-1.ws-api.xf-yun.com',
+      date: DATE,
+      method: 'GET',
+      path: '/v1/private/s8e098720',
+    }, 'sha1');
+    expect(signature).toBe('QwwTpzyzSkBdYBHqbnxCnBNSNz4=');
+  });
+
+  it('adds the body digest and uses HMAC-SHA256 for TTS', async () => {
+    const signature = await signXunfeiRequest('dev-secret', {
+      host: 'tts-api.xfyun.cn',
+      date: DATE,
+      method: 'POST',
+      path: '/v2/tts',
+      digest: TTS_DIGEST,
+    });
+    expect(signature).toBe('FeZ0BAM9hWk3IQg0T8/BYrqKc/Ufzu96kikZzRZWllQ=');
+  });
+});
+
+describe('getXunfeiAuthParams', () => {
+  it('lists the signed headers in the authorization', async () => {
+    const env = { XUNFEI_API_KEY: 'dev-key', XUNFEI_API_SECRET: 'dev-secret' };
+    const { authorization, digestHeader } = await getXunfeiAuthParams(env, 'tts-api.xfyun.cn', '/v2/tts', 'POST', TTS_BODY);
+    expect(digestHeader).toBe(TTS_DIGEST);
+    expect(atob(authorization)).toMatch(/^api_key="dev-key", algorithm="hmac-sha256", headers="host date request-line digest", signature="[^"]+"$/);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @file Request signing for Xunfei's HTTP and WebSocket APIs.
+ */
+
+// --- Hashing and Encoding Utilities ---
+export const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+    let binary = '';
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+export const utf8StringToBuf = (str: string): ArrayBuffer => {
+    return new TextEncoder().encode(str).buffer;
+};
+
+export async function sha256_base64(buffer: ArrayBuffer): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
+    return toBase64(hashBuffer);
+}
+
+// --- Xunfei Authentication Logic ---
+
+/**
+ * Computes the base64 HMAC signature over the signed headers, as Xunfei does when it
+ * checks a request. The `date` and `digest` lines must match what is sent.
+ */
+export async function signXunfeiRequest(
+  secret: string,
+  parts: { host: string; date: string; method: 'GET' | 'POST'; path: string; digest?: string },
+  algorithm: 'sha1' | 'sha256' = 'sha256'
+): Promise<string> {
+    let signatureOrigin = `host: ${parts.host}\ndate: ${parts.date}\n${parts.method} ${parts.path} HTTP/1.1`;
+    if (parts.digest) {
+        signatureOrigin += `\ndigest: ${parts.digest}`;
+    }
+
+    const hashAlgoName = algorithm === 'sha1' ? 'SHA-1' : 'SHA-256';
+    const cryptoKey = await crypto.subtle.importKey(
+        'raw', 
+        utf8StringToBuf(secret), 
+        { name: 'HMAC', hash: { name: hashAlgoName } }, 
+        false, 
+        ['sign']
+    );
+    
+    const signatureBuffer = await crypto.subtle.sign({ name: 'HMAC', hash: hashAlgoName }, cryptoKey, utf8StringToBuf(signatureOrigin));
+    return toBase64(signatureBuffer);
+}
+
+/**
+ * Generates the required authentication headers for Xunfei HTTP/WebSocket APIs.
+ * Supports both HMAC-SHA1 and HMAC-SHA256 algorithms.
+ */
+export async function getXunfeiAuthParams(
+  env: Record<string, any>, 
+  host: string, 
+  path: string, 
+  method: 'GET' | 'POST' = 'GET',
+  body?: string,
+  algorithm: 'sha1' | 'sha256' = 'sha256'
+): Promise<{ date: string; authorization: string; digestHeader?: string }> {
+    const date = new Date().toUTCString();
+    let headers = 'host date request-line';
+    let digestHeader: string | undefined = undefined;
+
+    // For POST requests with a body, a digest must be included in the signature.
+    // The HTTP Digest header standard is typically SHA-256, even if the signature HMAC is different.
+    if (method === 'POST' && body) {
+        const bodyDigest = await sha256_base64(utf8StringToBuf(body));
+        digestHeader = `SHA-256=${bodyDigest}`;
+        headers += ' digest';
+    }
+
+    // FIX: The older WebSocket service requires "hmac-sha256" in the authorization string,
+    // even though the signature itself is calculated using HMAC-SHA1. The newer HTTP
+    // services use "hmac-sha256" for both. This change unifies the algorithm string.
+    const authAlgoString = 'hmac-sha256';
+
+    const signature = await signXunfeiRequest(env.XUNFEI_API_SECRET, { host, date, method, path, digest: digestHeader }, algorithm);
+
+    const authorizationOrigin = `api_key="${env.XUNFEI_API_KEY}", algorithm="${authAlgoString}", headers="${headers}", signature="${signature}"`;
+    const authorization = btoa(authorizationOrigin);
+    
+    return { date, authorization, digestHeader };
+}
@@ -0,0 +1,211 @@
+/**
+ * @file Evaluation provider backed by Xunfei's suntone speech evaluation WebSocket API.
+ *
+ * NOTE: The primary cause of 'Timeout' errors is often a misconfigured IP whitelist
+ * in the Xunfei developer console. This code is correct, but Xunfei's firewall may
+ * silently drop requests from unknown IPs, leading to a timeout here.
+ */
+
+import { Accent, EvaluationResult, PhonemeScore, WordScore } from '../types';
+import { EvaluationInput, EvaluationProvider, EvaluationStream, EvaluationStreamInput } from './evaluation';
+import { getXunfeiAuthParams, toBase64 } from './xunfeiAuth';
+import { getUpgradedWebSocket } from './workersWebSocket';
+
+// XUNFEI_EVALUATION_ORIGIN points the provider elsewhere, e.g. at the local stand-in in server/fakeXunfei.ts.
+const DEFAULT_EVALUATION_ORIGIN = 'https://cn-east-1.ws-api.xf-yun.com';
+const EVALUATION_PATH = '/v1/private/s8e098720';
+const EVALUATION_TIMEOUT_MS = 15000;
+
+// IPA88 is the British notation taught in Chinese schools; American English is scored
+// against the CMU dictionary, whose ARPAbet symbols services/phonemeIpa.ts understands.
+const DICTIONARIES: Record<Accent, { dict_dialect: string; dict_type: string }> = {
+  british: { dict_dialect: 'en_br', dict_type: 'IPA88' },
+  american: { dict_dialect: 'en_us', dict_type: 'CMU' },
+};
+
+const toNumber = (value: unknown): number => Number(value) || 0;
+
+const normalizeSpan = (span: any) => ({ start: toNumber(span?.start), end: toNumber(span?.end) });
+
+/**
+ * Coerces Xunfei's loosely typed result (numbers sometimes arrive as strings, empty
+ * lists as missing keys) into an `EvaluationResult`.
+ */
+const normalizeXunfeiResult = (raw: any): EvaluationResult => ({
+  overall: toNumber(raw?.overall),
+  integrity: toNumber(raw?.integrity),
+  fluency: toNumber(raw?.fluency),
+  pronunciation: toNumber(raw?.pronunciation),
+  speed: toNumber(raw?.speed),
+  words: (Array.isArray(raw?.words) ? raw.words : []).map((word: any): WordScore => ({
+    span: normalizeSpan(word.span),
+    charType: toNumber(word.charType),
+    word: String(word.word ?? ''),
+    pinyin: String(word.pinyin ?? ''),
+    tone: String(word.tone ?? ''),
+    readType: toNumber(word.readType),
+    pause: { duration: toNumber(word.pause?.duration), type: toNumber(word.pause?.type) },
+    scores: {
+      tone: toNumber(word.scores?.tone),
+      pronunciation: toNumber(word.scores?.pronunciation),
+      prominence: toNumber(word.scores?.prominence),
+      overall: toNumber(word.scores?.overall),
+    },
+    phonemes: (Array.isArray(word.phonemes) ? word.phonemes : []).map((phoneme: any): PhonemeScore => ({
+      span: normalizeSpan(phoneme.span),
+      tone_index: String(phoneme.tone_index ?? ''),
+      phone: String(phoneme.phone ?? ''),
+      pronunciation: toNumber(phoneme.pronunciation),
+      phoneme: String(phoneme.phoneme ?? ''),
+    })),
+  })),
+});
+
+/**
+ * Connects to the evaluator and returns a session: the first `sendAudio` goes out as the
+ * status 0 frame carrying the parameters, later ones as status 1 frames, and `finish`
+ * sends the closing status 2 frame and waits for the result. The response timeout runs
+ * from `finish`, so a long recording does not eat into it.
+ */
+const openSession = async (
+  env: Record<string, any>,
+  { referenceText, mode, accent }: EvaluationStreamInput,
+  encoding: 'raw' | 'lame'
+) => {
+  const { XUNFEI_APP_ID } = env;
+  const origin = String(env.XUNFEI_EVALUATION_ORIGIN || DEFAULT_EVALUATION_ORIGIN).replace(/\/$/, '');
+  const host = new URL(origin).host;
+
+  // Use HMAC-SHA1 for this older WebSocket-based evaluation service.
+  const { date, authorization } = await getXunfeiAuthParams(env, host, EVALUATION_PATH, 'GET', undefined, 'sha1');
+  const params = new URLSearchParams({ host, date, authorization });
+
+  // For Cloudflare Workers, initiate WebSocket with an HTTPS fetch and an 'Upgrade' header.
+  const fetchUrl = `${origin}${EVALUATION_PATH}?${params.toString()}`;
+  let upgradeResponse: Response;
+  try {
+    upgradeResponse = await fetch(fetchUrl, {
+      headers: { 'Upgrade': 'websocket' }
+    });
+  } catch (e) {
+    throw { message: '与 AI 评分服务连接失败。', code: 'XF_CONNECTION_FAILED' };
+  }
+
+  const ws = getUpgradedWebSocket(upgradeResponse);
+  if (!ws) {
+    const errorBody = await upgradeResponse.text();
+    console.error("WebSocket upgrade failed:", upgradeResponse.status, errorBody);
+    throw new Error(`AI 引擎连接握手失败 (status: ${upgradeResponse.status}). 讯飞返回: ${errorBody || '无详细信息'}`);
+  }
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  // This Promise wraps the WebSocket lifecycle.
+  const result = new Promise<unknown>((resolve, reject) => {
+    let settled = false;
+    const settle = (func: Function, value: any) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timeoutId);
+        func(value);
+      }
+    };
+
+    ws.accept();
+
+    ws.addEventListener('message', (event: MessageEvent) => {
+      try {
+        const response = JSON.parse(event.data as string);
+        if (response.header.code === 0 && response.payload?.result?.text) {
+          const decodedResult = JSON.parse(atob(response.payload.result.text));
+          settle(resolve, decodedResult.result);
+          ws.close(1000, "Task completed");
+        } else if (response.header.code !== 0) {
+          settle(reject, { message: `AI 引擎错误: ${response.header.message || '未知错误'}`, code: 'XF_API_ERROR' });
+          ws.close(4000, "Error received");
+        }
+      } catch (e) {
+        settle(reject, { message: '解析 AI 引擎响应失败。', code: 'XF_PARSE_ERROR' });
+        ws.close(4001, "Parse error");
+      }
+    });
+
+    ws.addEventListener('error', () => {
+      settle(reject, { message: '与 AI 评分服务连接失败。', code: 'XF_CONNECTION_FAILED' });
+    });
+
+    ws.addEventListener('close', (event: CloseEvent) => {
+      if (event.code === 1001 && event.reason === 'Timeout') {
+        settle(reject, { message: 'AI 引擎响应超时。', code: 'XF_TIMEOUT' });
+      } else {
+        // Closing without a result, even cleanly, would otherwise leave the request hanging.
+        settle(reject, { message: `与 AI 评分服务的连接意外断开 (Code: ${event.code})。`, code: 'XF_CONNECTION_CLOSED' });
+      }
+    });
+  });
+  // A session that is aborted, or fails before `finish`, has nobody awaiting its result.
+  result.catch(() => {});
+
+  let framesSent = 0;
+  const audioData = (status: 0 | 1, audio: string) => ({
+    data: { encoding, sample_rate: 16000, channels: 1, bit_depth: 16, status, audio },
+  });
+
+  return {
+    sendAudio(audioBase64: string) {
+      if (framesSent++ === 0) {
+        ws.send(JSON.stringify({
+          header: { app_id: XUNFEI_APP_ID, status: 0 },
+          parameter: {
+            st: {
+              lang: 'en',
+              core: mode,
+              ...DICTIONARIES[accent],
+              refText: referenceText,
+              phoneme_output: 1,
+              result: { encoding: 'utf8', compress: 'raw', format: 'json' }
+            }
+          },
+          payload: audioData(0, audioBase64),
+        }));
+      } else {
+        ws.send(JSON.stringify({ header: { app_id: XUNFEI_APP_ID, status: 1 }, payload: audioData(1, audioBase64) }));
+      }
+    },
+    async finish(): Promise<EvaluationResult> {
+      ws.send(JSON.stringify({ header: { app_id: XUNFEI_APP_ID, status: 2 } }));
+      timeoutId = setTimeout(() => {
+        ws.close(1001, 'Timeout');
+      }, EVALUATION_TIMEOUT_MS);
+      return normalizeXunfeiResult(await result);
+    },
+    abort() {
+      ws.close(1000, 'Aborted');
+    },
+  };
+};
+
+export const createXunfeiEvaluationProvider = (env: Record<string, any>): EvaluationProvider => {
+  const { XUNFEI_APP_ID, XUNFEI_API_KEY, XUNFEI_API_SECRET } = env;
+  if (!XUNFEI_APP_ID || !XUNFEI_API_KEY || !XUNFEI_API_SECRET) {
+    console.error('Xunfei environment variables are not set.');
+    throw new Error('Server configuration error.');
+  }
+
+  return {
+    name: 'xunfei',
+    async evaluate({ audioBase64, audioMimeType, ...input }: EvaluationInput): Promise<EvaluationResult> {
+      const session = await openSession(env, input, audioMimeType === 'audio/pcm' ? 'raw' : 'lame');
+      session.sendAudio(audioBase64);
+      return session.finish();
+    },
+    async startStream(input: EvaluationStreamInput): Promise<EvaluationStream> {
+      const session = await openSession(env, input, 'raw');
+      return {
+        sendAudio: pcm => session.sendAudio(toBase64(pcm)),
+        finish: () => session.finish(),
+        abort: () => session.abort(),
+      };
+    },
+  };
+};
@@ -0,0 +1,22 @@
+import { Accent } from '../types';
+
+const ACCENT_KEY = 'pronunciation_coach_accent';
+
+/**
+ * Returns the accent the learner last chose, British by default.
+ */
+export const getAccent = (): Accent => {
+  try {
+    return localStorage.getItem(ACCENT_KEY) === 'american' ? 'american' : 'british';
+  } catch {
+    return 'british'; // Storage unavailable (e.g. private mode)
+  }
+};
+
+export const saveAccent = (accent: Accent): void => {
+  try {
+    localStorage.setItem(ACCENT_KEY, accent);
+  } catch {
+    // The choice then only lasts for this visit.
+  }
+};
@@ -0,0 +1,60 @@
+import {
+  AdminStats,
+  AdminUserSummary,
+  GenerateCodesRequestBody,
+  IssuedCodeRecord,
+  SubscriptionUpdateRequestBody,
+} from '../types';
+
+export type CodeStatusFilter = 'unused' | 'redeemed' | 'revoked' | '';
+
+/**
+ * Sends a request to one of the /api/admin routes. Errors carry the HTTP status so the
+ * console can tell "not signed in" (401) from "not an admin" (403).
+ */
+const callAdminApi = async <T>(path: string, method: 'GET' | 'POST', body?: unknown): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`/api/admin/${path}`, {
+      method,
+      credentials: 'same-origin',
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  } catch (error) {
+    console.error(`Error calling /api/admin/${path}:`, error);
+    throw new Error('网络连接失败，请稍后再试。');
+  }
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw Object.assign(new Error(result.error || `管理服务错误: ${response.statusText}`), { status: response.status, code: result.code });
+  }
+  return result as T;
+};
+
+const withQuery = (path: string, params: Record<string, string>): string => {
+  const query = new URLSearchParams(Object.entries(params).filter(([, value]) => value)).toString();
+  return query ? `${path}?${query}` : path;
+};
+
+export const getStats = (): Promise<AdminStats> => callAdminApi<AdminStats>('stats', 'GET');
+
+export const listCodes = (status: CodeStatusFilter = '', query: string = '') =>
+  callAdminApi<{ codes: IssuedCodeRecord[]; total: number }>(withQuery('codes', { status, q: query }), 'GET');
+
+export const generateCodes = (request: GenerateCodesRequestBody) =>
+  callAdminApi<{ batchId: string; codes: IssuedCodeRecord[] }>('codes/generate', 'POST', request);
+
+export const revokeCode = async (code: string): Promise<IssuedCodeRecord> => {
+  const result = await callAdminApi<{ code: IssuedCodeRecord }>('codes/revoke', 'POST', { code });
+  return result.code;
+};
+
+export const searchUsers = (query: string = '') =>
+  callAdminApi<{ users: AdminUserSummary[]; total: number }>(withQuery('users', { q: query }), 'GET');
+
+export const updateSubscription = async (request: SubscriptionUpdateRequestBody): Promise<AdminUserSummary> => {
+  const { user } = await callAdminApi<{ user: AdminUserSummary }>('users/subscription', 'POST', request);
+  return user;
+};
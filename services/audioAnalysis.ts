@@ -0,0 +1,164 @@
+/**
+ * Signal analysis helpers for drawing waveforms and spectrograms in the browser.
+ * Everything here works on plain Float32Array samples so it can be used with any
+ * decoded AudioBuffer channel.
+ */
+
+export interface Spectrogram {
+  frames: Float32Array[]; // One array of dB magnitudes (0 Hz upwards) per analysis frame
+  sampleRate: number;
+  fftSize: number;
+  hopSize: number;
+}
+
+export interface SpectrogramOptions {
+  fftSize?: number; // Must be a power of two
+  hopSize?: number;
+}
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same power-of-two length.
+ */
+export const fft = (re: Float32Array, im: Float32Array): void => {
+  const n = re.length;
+  if (n & (n - 1)) {
+    throw new Error(`FFT size must be a power of two, got ${n}.`);
+  }
+
+  // Bit-reversal permutation.
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+const hannWindow = (size: number): Float32Array => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+  }
+  return window;
+};
+
+/**
+ * Computes a short-time Fourier transform magnitude spectrogram in decibels.
+ */
+export const computeSpectrogram = (
+  samples: Float32Array,
+  sampleRate: number,
+  { fftSize = 512, hopSize = Math.round(sampleRate / 100) }: SpectrogramOptions = {}
+): Spectrogram => {
+  const window = hannWindow(fftSize);
+  const frames: Float32Array[] = [];
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+
+  for (let start = 0; start + fftSize <= samples.length; start += hopSize) {
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const magnitudes = new Float32Array(fftSize / 2);
+    for (let bin = 0; bin < fftSize / 2; bin++) {
+      const power = re[bin] * re[bin] + im[bin] * im[bin];
+      magnitudes[bin] = 10 * Math.log10(power + 1e-10);
+    }
+    frames.push(magnitudes);
+  }
+
+  return { frames, sampleRate, fftSize, hopSize };
+};
+
+/**
+ * Reduces samples to `buckets` min/max pairs for drawing a waveform.
+ */
+export const computeWaveformPeaks = (samples: Float32Array, buckets: number): { min: Float32Array; max: Float32Array } => {
+  const min = new Float32Array(buckets);
+  const max = new Float32Array(buckets);
+  const bucketSize = samples.length / buckets;
+
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * bucketSize);
+    const end = Math.max(start + 1, Math.floor((b + 1) * bucketSize));
+    let lo = 0;
+    let hi = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      if (samples[i] < lo) lo = samples[i];
+      if (samples[i] > hi) hi = samples[i];
+    }
+    min[b] = lo;
+    max[b] = hi;
+  }
+  return { min, max };
+};
+
+/**
+ * Finds where speech starts and ends using short-term energy, so two recordings can
+ * be lined up on their first sound rather than on however much silence preceded it.
+ * Returns sample offsets; the whole clip if no frame rises above the threshold.
+ */
+export const findSpeechBounds = (
+  samples: Float32Array,
+  sampleRate: number,
+  thresholdDb: number = -40
+): { start: number; end: number } => {
+  const frameSize = Math.max(1, Math.round(sampleRate / 100)); // 10 ms frames
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (peak === 0) {
+    return { start: 0, end: samples.length };
+  }
+
+  // Threshold is relative to the loudest sample so quiet recordings are handled too.
+  const threshold = peak * Math.pow(10, thresholdDb / 20);
+  let start = -1;
+  let end = -1;
+  for (let frameStart = 0; frameStart < samples.length; frameStart += frameSize) {
+    let sumSquares = 0;
+    const frameEnd = Math.min(samples.length, frameStart + frameSize);
+    for (let i = frameStart; i < frameEnd; i++) {
+      sumSquares += samples[i] * samples[i];
+    }
+    const rms = Math.sqrt(sumSquares / (frameEnd - frameStart));
+    if (rms >= threshold) {
+      if (start < 0) start = frameStart;
+      end = frameEnd;
+    }
+  }
+
+  return start < 0 ? { start: 0, end: samples.length } : { start, end };
+};
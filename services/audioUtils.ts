@@ -0,0 +1,66 @@
+// Sample rate of the raw PCM we record and send to the evaluation engine.
+export const PCM_SAMPLE_RATE = 16000;
+
+/**
+ * Wraps raw 16-bit mono PCM samples in a WAV container so browsers can play them.
+ */
+export const pcmToWavBlob = async (pcm: Blob, sampleRate: number = PCM_SAMPLE_RATE): Promise<Blob> => {
+  const data = await pcm.arrayBuffer();
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + data.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);              // fmt chunk size
+  view.setUint16(20, 1, true);               // PCM format
+  view.setUint16(22, 1, true);               // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);  // byte rate
+  view.setUint16(32, 2, true);               // block align
+  view.setUint16(34, 16, true);              // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, data.byteLength, true);
+
+  return new Blob([header, data], { type: 'audio/wav' });
+};
+
+/**
+ * Returns a blob the browser's <audio> element can play. Raw PCM is wrapped in WAV;
+ * every other format is returned unchanged.
+ */
+export const toPlayableBlob = async (blob: Blob, mimeType: string): Promise<Blob> => {
+  return mimeType === 'audio/pcm' ? pcmToWavBlob(blob) : blob;
+};
+
+/**
+ * Converts samples in [-1, 1] to 16-bit PCM, clipping anything outside that range.
+ */
+export const floatTo16BitPcm = (samples: Float32Array): Int16Array<ArrayBuffer> => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return pcm;
+};
+
+/**
+ * Joins 16-bit PCM chunks back into one run of samples in [-1, 1].
+ */
+export const pcmChunksToFloat = (chunks: Int16Array[]): Float32Array<ArrayBuffer> => {
+  const samples = new Float32Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i++) {
+      samples[offset++] = chunk[i] / 0x8000;
+    }
+  }
+  return samples;
+};
@@ -1,112 +1,63 @@
 // Fix: Import User from types.ts instead of App.tsx
-import { User } from '../types';
+import { ActivationRedeemRequestBody, ActivationRedeemResponse, AuthRequestBody, AuthResponse, User } from '../types';
 
 const CURRENT_USER_KEY = 'pronunciation_coach_user';
-const ACTIVATED_USERS_KEY = 'pronunciation_coach_activated_users';
-const ALL_USERS_KEY = 'pronunciation_coach_all_users';
-const ACTIVATION_CODES_KEY = 'pronunciation_coach_codes';
-
-// --- User and Code Storage Management (using localStorage) ---
-// In a real app, this logic would be on a secure server.
-
-type UserStore = {
-  [identifier: string]: { password: string };
-};
-
-type ActivatedUserStore = {
-  [identifier: string]: { expiryTimestamp: number };
-};
-
-export type UsedCodeInfo = {
-  userIdentifier: string;
-  activationTimestamp: number;
-};
-
-// The concept of 'available' codes is removed. We only track used codes.
-export type ActivationCodeStore = {
-  used: { [code: string]: UsedCodeInfo };
-};
-
+// Older builds kept every account's plaintext password, and activations that could be
+// edited by hand, under these keys.
+const LEGACY_KEYS = [
+  'pronunciation_coach_all_users',
+  'pronunciation_coach_activated_users',
+  'pronunciation_coach_codes',
+];
+
+// Accounts, sessions and subscriptions now live on the server (/api/auth/*,
+// /api/activation/*). The signed-in user is cached here only so that it can be read
+// synchronously; the session cookie is the source of truth.
+try {
+  LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+} catch {
+  // Storage unavailable (e.g. private mode); nothing to clean up.
+}
 
-const getUsers = (): UserStore => {
-  try {
-    const data = localStorage.getItem(ALL_USERS_KEY);
-    return data ? JSON.parse(data) : {};
-  } catch {
-    return {};
+const setCachedUser = (user: User | null) => {
+  if (user) {
+    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
+  } else {
+    localStorage.removeItem(CURRENT_USER_KEY);
   }
 };
 
-const setUsers = (users: UserStore) => {
-  localStorage.setItem(ALL_USERS_KEY, JSON.stringify(users));
-};
-
-const getActivatedUsers = (): ActivatedUserStore => {
+/**
+ * Sends a request to one of the account API routes and returns the parsed JSON body.
+ */
+const callAccountApi = async <T>(path: string, method: 'GET' | 'POST', body?: unknown): Promise<T> => {
+  let response: Response;
   try {
-    const data = localStorage.getItem(ACTIVATED_USERS_KEY);
-    return data ? JSON.parse(data) : {};
-  } catch {
-    return {};
+    response = await fetch(`/api/${path}`, {
+      method,
+      credentials: 'same-origin',
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  } catch (error) {
+    console.error(`Error calling /api/${path}:`, error);
+    throw new Error('网络连接失败，请稍后再试。');
   }
-};
 
-const setActivatedUsers = (users: ActivatedUserStore) => {
-  localStorage.setItem(ACTIVATED_USERS_KEY, JSON.stringify(users));
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw Object.assign(new Error(result.error || `账户服务错误: ${response.statusText}`), { status: response.status, code: result.code });
+  }
+  return result as T;
 };
 
-const getActivationCodes = (): ActivationCodeStore => {
-    try {
-        const data = localStorage.getItem(ACTIVATION_CODES_KEY);
-        // If no codes exist, initialize with an empty store.
-        if (!data) {
-            const initialCodes: ActivationCodeStore = {
-                used: {},
-            };
-            localStorage.setItem(ACTIVATION_CODES_KEY, JSON.stringify(initialCodes));
-            return initialCodes;
-        }
-        // Ensure the loaded data has the 'used' property.
-        const parsedData = JSON.parse(data);
-        return parsedData.used ? parsedData : { used: {} };
-    } catch {
-        // Fallback with a clean slate if parsing fails.
-        return { used: {} };
-    }
-}
-
-const setActivationCodes = (codes: ActivationCodeStore) => {
-    localStorage.setItem(ACTIVATION_CODES_KEY, JSON.stringify(codes));
-}
-
-// --- Exported Functions ---
-
-/**
- * Returns all activation codes. Now only returns used codes.
- * (Admin function)
- */
-export const getAllActivationCodes = (): ActivationCodeStore => {
-    return getActivationCodes();
-}
-
 /**
  * Registers a new user.
  */
 export const register = async (identifier: string, password: string): Promise<User> => {
-    return new Promise((resolve, reject) => {
-        setTimeout(() => {
-            const users = getUsers();
-            if (users[identifier]) {
-                reject(new Error('该手机号已被注册。'));
-                return;
-            }
-            users[identifier] = { password };
-            setUsers(users);
-
-            const user: User = { identifier };
-            localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
-            resolve(user);
-        }, 500);
-    });
+  const { user } = await callAccountApi<AuthResponse>('auth/register', 'POST', { identifier, password } as AuthRequestBody);
+  setCachedUser(user);
+  return user;
 };
 
 
@@ -114,29 +65,24 @@ export const register = async (identifier: string, password: string): Promise<Us
  * Logs in a user.
  */
 export const login = async (identifier: string, password: string): Promise<User> => {
-  return new Promise((resolve, reject) => {
-    setTimeout(() => {
-      const users = getUsers();
-      if (users[identifier] && users[identifier].password === password) {
-        const user: User = { identifier };
-        localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
-        resolve(user);
-      } else {
-        reject(new Error('手机号或密码不正确。'));
-      }
-    }, 500); // Simulate network delay
-  });
+  const { user } = await callAccountApi<AuthResponse>('auth/login', 'POST', { identifier, password } as AuthRequestBody);
+  setCachedUser(user);
+  return user;
 };
 
 /**
- * Logs the current user out.
+ * Logs the current user out and revokes the session on the server.
  */
-export const logout = (): void => {
-  localStorage.removeItem(CURRENT_USER_KEY);
+export const logout = async (): Promise<void> => {
+  try {
+    await callAccountApi('auth/logout', 'POST');
+  } finally {
+    setCachedUser(null);
+  }
 };
 
 /**
- * Gets the currently logged-in user from session storage.
+ * Gets the last known signed-in user from the local cache.
  */
 export const getCurrentUser = (): User | null => {
   const userData = localStorage.getItem(CURRENT_USER_KEY);
@@ -152,66 +98,41 @@ export const getCurrentUser = (): User | null => {
 };
 
 /**
- * Checks if a user has activated their account and their subscription is not expired.
+ * Asks the server who is signed in and refreshes the local cache.
+ * Returns null when the session is missing, expired or revoked.
  */
-export const isUserActivated = (identifier: string): boolean => {
-  const activatedUsers = getActivatedUsers();
-  const userData = activatedUsers[identifier];
-  if (!userData) {
-    return false;
+export const fetchCurrentUser = async (): Promise<User | null> => {
+  try {
+    const { user } = await callAccountApi<AuthResponse>('auth/me', 'GET');
+    setCachedUser(user);
+    return user;
+  } catch (error: any) {
+    if (error.status === 401) {
+      setCachedUser(null);
+      return null;
+    }
+    // Offline or server trouble: keep whatever we knew.
+    return getCurrentUser();
   }
-  
-  const now = new Date().getTime();
-  return userData.expiryTimestamp > now;
 };
 
 /**
- * Verifies an activation code based on its format (length) and whether it has been used before.
- * 3-digit codes give 1 month access.
- * 4-digit codes give 1 year access.
- * Codes can only be used once.
+ * Checks whether a user's subscription is active. The server enforces the same rule;
+ * this only decides what to show.
  */
-export const verifyActivationCode = async (identifier: string, code: string): Promise<boolean> => {
-   return new Promise((resolve) => {
-    setTimeout(() => {
-        // Validate format first
-        if (!/^\d{3,4}$/.test(code)) {
-            resolve(false);
-            return;
-        }
-
-        const codes = getActivationCodes();
-        
-        // Code must NOT be in the used list.
-        if (codes.used[code]) {
-            resolve(false);
-            return;
-        }
-
-        const activatedUsers = getActivatedUsers();
-        const activationTime = new Date();
-        let expiryDate: Date;
+export const isUserActivated = (user: User | null): boolean =>
+  !!user?.subscriptionExpiresAt && user.subscriptionExpiresAt > Date.now();
 
-        if (code.length === 3) { // 1-month subscription
-            expiryDate = new Date(activationTime);
-            expiryDate.setMonth(activationTime.getMonth() + 1);
-        } else { // 1-year subscription (4-digit)
-            expiryDate = new Date(activationTime);
-            expiryDate.setFullYear(activationTime.getFullYear() + 1);
-        }
-
-        // Activate user and set expiry date
-        activatedUsers[identifier] = { expiryTimestamp: expiryDate.getTime() };
-        setActivatedUsers(activatedUsers);
-
-        // Add code to the 'used' list and record user info
-        codes.used[code] = {
-            userIdentifier: identifier,
-            activationTimestamp: activationTime.getTime(),
-        };
-        setActivationCodes(codes);
-        
-        resolve(true);
-    }, 500); // Simulate network delay
-   });
-};
\ No newline at end of file
+/**
+ * Redeems an activation code for the signed-in user. The server checks the code's
+ * signature, marks it used and extends the subscription by the plan's duration.
+ */
+export const redeemActivationCode = async (code: string): Promise<User> => {
+  const { user } = await callAccountApi<ActivationRedeemResponse>(
+    'activation/redeem',
+    'POST',
+    { code: code.trim() } as ActivationRedeemRequestBody
+  );
+  setCachedUser(user);
+  return user;
+};
@@ -0,0 +1,105 @@
+/**
+ * Client for the /api/evaluation/stream WebSocket: the recording is sent while the
+ * learner speaks, so the score arrives moments after they stop instead of after a
+ * whole-clip upload.
+ */
+
+import {
+  Accent,
+  EvaluationResult,
+  EvaluationStreamClientMessage,
+  EvaluationStreamServerMessage,
+  PracticeItem,
+  PracticeLevel,
+} from '../types';
+import { isPcmCaptureSupported } from './pcmCapture';
+import { getReferenceText, toEvaluationError } from './xunfeiService';
+
+// Set on errors where the proxy was never reached or never answered, so the caller can
+// fall back to uploading the whole recording.
+export const STREAM_UNAVAILABLE = 'STREAM_UNAVAILABLE';
+
+// How long `finish` waits for a connection that is still being set up.
+const CONNECT_TIMEOUT_MS = 5000;
+
+export interface EvaluationStream {
+  /** Sends a chunk of 16 kHz, 16-bit mono PCM. Chunks sent before the socket opens are queued. */
+  sendAudio(pcm: Int16Array<ArrayBuffer>): void;
+  /** Ends the recording and resolves with its score. */
+  finish(): Promise<EvaluationResult>;
+  /** Drops the session without a score. */
+  abort(): void;
+}
+
+export const isEvaluationStreamSupported = (): boolean =>
+  typeof WebSocket !== 'undefined' && isPcmCaptureSupported();
+
+const unavailableError = (message: string): Error =>
+  Object.assign(new Error(message), { code: STREAM_UNAVAILABLE });
+
+/**
+ * Opens a streaming evaluation of `item`. The connection is set up in the background,
+ * so recording can start right away.
+ */
+export const openEvaluationStream = (item: PracticeItem, level: PracticeLevel, accent: Accent): EvaluationStream => {
+  const url = new URL('/api/evaluation/stream', window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  const socket = new WebSocket(url);
+  socket.binaryType = 'arraybuffer';
+
+  const start: EvaluationStreamClientMessage = { type: 'start', referenceText: getReferenceText(item, level), level, accent };
+  const end: EvaluationStreamClientMessage = { type: 'end' };
+  const queued: ArrayBuffer[] = [];
+  let ended = false;
+  let answered = false;
+
+  const result = new Promise<EvaluationResult>((resolve, reject) => {
+    socket.onmessage = (event: MessageEvent) => {
+      answered = true;
+      const message: EvaluationStreamServerMessage = JSON.parse(event.data);
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(toEvaluationError(message, 'AI评分服务暂时不可用，请稍后再试。'));
+      }
+    };
+    // A refused upgrade (e.g. an exhausted quota) also ends up here, with no details;
+    // uploading the recording instead gets the proxy's actual answer.
+    socket.onclose = () => {
+      if (!answered) reject(unavailableError('与 AI 评分服务的连接中断。'));
+    };
+  });
+  // Nobody awaits the result of a session that is aborted before `finish`.
+  result.catch(() => {});
+
+  socket.onopen = () => {
+    socket.send(JSON.stringify(start));
+    queued.forEach(chunk => socket.send(chunk));
+    queued.length = 0;
+    if (ended) socket.send(JSON.stringify(end));
+  };
+
+  return {
+    sendAudio(pcm) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(pcm.buffer);
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        queued.push(pcm.buffer);
+      }
+    },
+    async finish() {
+      ended = true;
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(end));
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        setTimeout(() => {
+          if (socket.readyState === WebSocket.CONNECTING) socket.close();
+        }, CONNECT_TIMEOUT_MS);
+      }
+      return result;
+    },
+    abort() {
+      socket.close();
+    },
+  };
+};
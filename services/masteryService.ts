@@ -0,0 +1,87 @@
+import { Accent, MasteryConfig, MasteryProgress, PhonemeSuperCategory, PracticeAttemptSummary, PracticeData, PracticeItem, PracticeLevel } from '../types';
+import { getItemKey } from './practiceHistoryService';
+
+// Number of passing attempts per item key.
+export type PassCounts = { [itemKey: string]: number };
+
+/**
+ * Counts, per item, how many attempts reached the passing score.
+ */
+export const countPasses = (attempts: PracticeAttemptSummary[], config: MasteryConfig): PassCounts => {
+  const passes: PassCounts = {};
+  for (const attempt of attempts) {
+    if (attempt.result.overall >= config.passingScore) {
+      passes[attempt.itemKey] = (passes[attempt.itemKey] || 0) + 1;
+    }
+  }
+  return passes;
+};
+
+const computeProgress = (
+  accent: Accent,
+  level: PracticeLevel,
+  items: PracticeItem[],
+  passes: PassCounts,
+  config: MasteryConfig,
+  isLocked: boolean
+): MasteryProgress => {
+  const mastered = items.filter(item => (passes[getItemKey(accent, level, item)] || 0) >= config.requiredPasses).length;
+  const total = items.length;
+  return {
+    mastered,
+    total,
+    progress: total > 0 ? mastered / total : 0,
+    isComplete: total > 0 && mastered === total,
+    isLocked,
+  };
+};
+
+/**
+ * Computes mastery for each phoneme category of the accent's track, in path order. The
+ * first category is always open; each later one unlocks once the previous one reaches
+ * the unlock threshold.
+ */
+export const getPhonemeCategoryProgress = (
+  phonemeData: PhonemeSuperCategory[],
+  passes: PassCounts,
+  config: MasteryConfig,
+  accent: Accent
+): { [categoryTitle: string]: MasteryProgress } => {
+  const result: { [categoryTitle: string]: MasteryProgress } = {};
+  let previous: MasteryProgress | null = null;
+
+  for (const category of phonemeData.flatMap(sup => sup.categories)) {
+    const isLocked: boolean = previous !== null && (previous.isLocked || previous.progress < config.unlockThreshold);
+    const progress = computeProgress(accent, PracticeLevel.Phonemes, category.items, passes, config, isLocked);
+    result[category.title] = progress;
+    previous = progress;
+  }
+  return result;
+};
+
+const getLevelItems = (data: PracticeData, level: PracticeLevel): PracticeItem[] =>
+  level === PracticeLevel.Phonemes
+    ? data[PracticeLevel.Phonemes].flatMap(sup => sup.categories.flatMap(cat => cat.items))
+    : data[level];
+
+/**
+ * Computes mastery for each practice level of the accent's track, in the order the
+ * levels are declared. A level unlocks once the level before it reaches the unlock threshold.
+ */
+export const getLevelProgress = (
+  data: PracticeData,
+  passes: PassCounts,
+  config: MasteryConfig,
+  accent: Accent
+): { [level in PracticeLevel]: MasteryProgress } => {
+  const result = {} as { [level in PracticeLevel]: MasteryProgress };
+  let previous: MasteryProgress | null = null;
+
+  for (const level of Object.values(PracticeLevel) as PracticeLevel[]) {
+    const isLocked: boolean = previous !== null && (previous.isLocked || previous.progress < config.unlockThreshold);
+    const progress = computeProgress(accent, level, getLevelItems(data, level), passes, config, isLocked);
+    result[level] = progress;
+    previous = progress;
+  }
+  return result;
+};
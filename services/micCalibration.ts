@@ -0,0 +1,42 @@
+/**
+ * The optional microphone check offered on first use. It measures the room's
+ * background noise, which then seeds voice activity detection, and shows the learner
+ * whether their setup is good enough before they spend an evaluation on it.
+ */
+
+import { MicCalibration } from '../types';
+import { pcmChunksToFloat } from './audioUtils';
+import { startPcmCapture } from './pcmCapture';
+
+const CALIBRATION_KEY = 'pronunciation_coach_mic_calibration';
+
+/**
+ * Returns the stored calibration, or null if the learner has neither run nor skipped it.
+ */
+export const getMicCalibration = (): MicCalibration | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CALIBRATION_KEY) || 'null');
+    return typeof stored?.calibratedAt === 'number' ? stored : null;
+  } catch {
+    return null; // Storage unavailable (e.g. private mode) or corrupted
+  }
+};
+
+export const saveMicCalibration = (calibration: MicCalibration): void => {
+  try {
+    localStorage.setItem(CALIBRATION_KEY, JSON.stringify(calibration));
+  } catch {
+    // The result then only lasts for this visit.
+  }
+};
+
+/**
+ * Records `durationMs` of 16 kHz audio from an open microphone stream.
+ */
+export const captureSample = async (stream: MediaStream, durationMs: number): Promise<Float32Array> => {
+  const chunks: Int16Array[] = [];
+  const capture = await startPcmCapture(stream, pcm => chunks.push(pcm));
+  await new Promise(resolve => setTimeout(resolve, durationMs));
+  await capture.stop();
+  return pcmChunksToFloat(chunks);
+};
\ No newline at end of file
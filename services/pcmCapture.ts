@@ -0,0 +1,114 @@
+/**
+ * Live microphone capture as 16 kHz, 16-bit mono PCM, delivered in chunks while the
+ * learner is still speaking, so the recording can be streamed to the evaluator.
+ */
+
+import { floatTo16BitPcm, PCM_SAMPLE_RATE } from './audioUtils';
+import { createResampler } from './resampler';
+
+const PROCESSOR_NAME = 'pcm-capture';
+
+// Runs on the audio rendering thread. It batches the 128-sample render quanta into
+// chunks of about 100 ms, and posts whatever is left over when asked to flush.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(Math.round(sampleRate / 10));
+    this.length = 0;
+    this.port.onmessage = () => {
+      this.port.postMessage({ samples: this.buffer.slice(0, this.length), final: true });
+      this.length = 0;
+    };
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.buffer[this.length++] = channel[i];
+        if (this.length === this.buffer.length) {
+          this.port.postMessage({ samples: this.buffer.slice(), final: false });
+          this.length = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// Stop waits this long for the worklet to hand over its last partial chunk.
+const FLUSH_TIMEOUT_MS = 500;
+
+export interface PcmCapture {
+  /** Stops capturing. Resolves once the last chunk has been delivered. */
+  stop(): Promise<void>;
+}
+
+export const isPcmCaptureSupported = (): boolean =>
+  typeof AudioContext !== 'undefined' && typeof AudioWorkletNode !== 'undefined';
+
+/**
+ * Starts capturing `stream`, calling `onChunk` with each chunk of PCM as it is recorded.
+ */
+export const startPcmCapture = async (
+  stream: MediaStream,
+  onChunk: (pcm: Int16Array<ArrayBuffer>) => void
+): Promise<PcmCapture> => {
+  // Firefox cannot connect a microphone to a context of another sample rate, so the
+  // context runs at the device rate and the samples are filtered and resampled here.
+  const context = new AudioContext();
+  try {
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    // The browser mixes a stereo microphone down to the single channel the processor reads.
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'speakers',
+    });
+    // Some browsers only run nodes that lead to the speakers; the zero gain keeps the
+    // microphone from being heard.
+    const mute = context.createGain();
+    mute.gain.value = 0;
+    source.connect(node).connect(mute).connect(context.destination);
+
+    const resampler = createResampler(context.sampleRate, PCM_SAMPLE_RATE);
+    const deliver = (samples: Float32Array) => {
+      if (samples.length) onChunk(floatTo16BitPcm(samples));
+    };
+    let onFlushed = () => {};
+    const flushed = new Promise<void>(resolve => { onFlushed = resolve; });
+    node.port.onmessage = (event: MessageEvent<{ samples: Float32Array; final: boolean }>) => {
+      deliver(resampler.push(event.data.samples));
+      if (event.data.final) onFlushed();
+    };
+
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    return {
+      async stop() {
+        node.port.postMessage('flush');
+        await Promise.race([flushed, new Promise(resolve => setTimeout(resolve, FLUSH_TIMEOUT_MS))]);
+        node.port.onmessage = null;
+        deliver(resampler.flush());
+        source.disconnect();
+        node.disconnect();
+        await context.close();
+      },
+    };
+  } catch (error) {
+    context.close().catch(() => {});
+    throw error;
+  }
+};
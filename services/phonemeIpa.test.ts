@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Accent, PracticeData, PracticeLevel } from '../types';
+import { AMERICAN_PRACTICE_DATA, PRACTICE_DATA } from '../constants';
+import { toIpa, toIpaLabel } from './phonemeIpa';
+
+// How the engine spells each practised phoneme, as a sequence of its symbols: the
+// r-coloured American vowels come back as a vowel followed by R. Null where the
+// notation has no spelling for the sound, e.g. CMU has no /ɒ/ or centring diphthongs.
+interface EngineSpelling {
+  ipa88: string[] | null;
+  cmu: string[] | null;
+}
+
+// Both tracks share the consonants. CMU writes the affricate clusters as two symbols.
+const CONSONANT_SPELLINGS: { [label: string]: EngineSpelling } = {
+  '/p/': { ipa88: ['p'], cmu: ['P'] },
+  '/t/': { ipa88: ['t'], cmu: ['T'] },
+  '/k/': { ipa88: ['k'], cmu: ['K'] },
+  '/f/': { ipa88: ['f'], cmu: ['F'] },
+  '/s/': { ipa88: ['s'], cmu: ['S'] },
+  '/ʃ/': { ipa88: ['ʃ'], cmu: ['SH'] },
+  '/θ/': { ipa88: ['θ'], cmu: ['TH'] },
+  '/h/': { ipa88: ['h'], cmu: ['HH'] },
+  '/tʃ/': { ipa88: ['tʃ'], cmu: ['CH'] },
+  '/tr/': { ipa88: ['tr'], cmu: ['T', 'R'] },
+  '/ts/': { ipa88: ['ts'], cmu: ['T', 'S'] },
+  '/b/': { ipa88: ['b'], cmu: ['B'] },
+  '/d/': { ipa88: ['d'], cmu: ['D'] },
+  '/g/': { ipa88: ['ɡ'], cmu: ['G'] },
+  '/v/': { ipa88: ['v'], cmu: ['V'] },
+  '/z/': { ipa88: ['z'], cmu: ['Z'] },
+  '/ʒ/': { ipa88: ['ʒ'], cmu: ['ZH'] },
+  '/ð/': { ipa88: ['ð'], cmu: ['DH'] },
+  '/r/': { ipa88: ['r'], cmu: ['R'] },
+  '/dʒ/': { ipa88: ['dʒ'], cmu: ['JH'] },
+  '/dr/': { ipa88: ['dr'], cmu: ['D', 'R'] },
+  '/dz/': { ipa88: ['dz'], cmu: ['D', 'Z'] },
+  '/m/': { ipa88: ['m'], cmu: ['M'] },
+  '/n/': { ipa88: ['n'], cmu: ['N'] },
+  '/ŋ/': { ipa88: ['ŋ'], cmu: ['NG'] },
+  '/l/': { ipa88: ['l'], cmu: ['L'] },
+  '/w/': { ipa88: ['w'], cmu: ['W'] },
+  '/j/': { ipa88: ['j'], cmu: ['Y'] },
+};
+
+const BRITISH_SPELLINGS: { [label: string]: EngineSpelling } = {
+  ...CONSONANT_SPELLINGS,
+  '/iː/': { ipa88: ['i:'], cmu: ['IY1'] },
+  '/ɜː/': { ipa88: ['ə:'], cmu: ['ER1'] },
+  '/ɑː/': { ipa88: ['ɑ:'], cmu: ['AA1'] },
+  '/ɔː/': { ipa88: ['ɔ:'], cmu: ['AO1'] },
+  '/uː/': { ipa88: ['u:'], cmu: ['UW1'] },
+  '/ɪ/': { ipa88: ['i'], cmu: ['IH1'] },
+  '/e/': { ipa88: ['e'], cmu: ['EH1'] },
+  '/æ/': { ipa88: ['æ'], cmu: ['AE1'] },
+  '/ə/': { ipa88: ['ə'], cmu: ['AH0'] },
+  '/ʌ/': { ipa88: ['ʌ'], cmu: ['AH1'] },
+  '/ɒ/': { ipa88: ['ɔ'], cmu: null },
+  '/ʊ/': { ipa88: ['u'], cmu: ['UH1'] },
+  '/eɪ/': { ipa88: ['ei'], cmu: ['EY1'] },
+  '/aɪ/': { ipa88: ['ai'], cmu: ['AY1'] },
+  '/ɔɪ/': { ipa88: ['ɔi'], cmu: ['OY1'] },
+  '/aʊ/': { ipa88: ['au'], cmu: ['AW1'] },
+  '/əʊ/': { ipa88: ['əu'], cmu: ['OW1'] },
+  '/ɪə/': { ipa88: ['iə'], cmu: null },
+  '/eə/': { ipa88: ['εə'], cmu: null },
+  '/ʊə/': { ipa88: ['uə'], cmu: null },
+};
+
+const AMERICAN_SPELLINGS: { [label: string]: EngineSpelling } = {
+  ...CONSONANT_SPELLINGS,
+  '/i/': { ipa88: ['i:'], cmu: ['IY1'] },
+  '/ɑ/': { ipa88: ['ɑ:'], cmu: ['AA1'] },
+  '/ɔ/': { ipa88: ['ɔ:'], cmu: ['AO1'] },
+  '/u/': { ipa88: ['u:'], cmu: ['UW1'] },
+  '/ɪ/': { ipa88: ['i'], cmu: ['IH1'] },
+  '/ɛ/': { ipa88: ['e'], cmu: ['EH1'] },
+  '/æ/': { ipa88: ['æ'], cmu: ['AE1'] },
+  '/ə/': { ipa88: ['ə'], cmu: ['AH0'] },
+  '/ʌ/': { ipa88: ['ʌ'], cmu: ['AH1'] },
+  '/ʊ/': { ipa88: ['u'], cmu: ['UH1'] },
+  '/eɪ/': { ipa88: ['ei'], cmu: ['EY1'] },
+  '/aɪ/': { ipa88: ['ai'], cmu: ['AY1'] },
+  '/ɔɪ/': { ipa88: ['ɔi'], cmu: ['OY1'] },
+  '/aʊ/': { ipa88: ['au'], cmu: ['AW1'] },
+  '/oʊ/': { ipa88: ['əu'], cmu: ['OW1'] },
+  '/ɝ/': { ipa88: ['ə:'], cmu: ['ER1'] },
+  '/ɚ/': { ipa88: null, cmu: ['ER0'] },
+  '/ɑr/': { ipa88: ['ɑ:', 'r'], cmu: ['AA1', 'R'] },
+  '/ɔr/': { ipa88: ['ɔ:', 'r'], cmu: ['AO1', 'R'] },
+  '/ɪr/': { ipa88: ['iə'], cmu: ['IH1', 'R'] },
+  '/ɛr/': { ipa88: ['εə'], cmu: ['EH1', 'R'] },
+  '/ʊr/': { ipa88: ['uə'], cmu: ['UH1', 'R'] },
+};
+
+const getPhonemeLabels = (data: PracticeData): string[] =>
+  data[PracticeLevel.Phonemes].flatMap(group => group.categories.flatMap(category => category.items.map(item => item.text)));
+
+const spell = (symbols: string[], accent: Accent): string => `/${symbols.map(symbol => toIpa(symbol, accent)).join('')}/`;
+
+describe.each([
+  { accent: 'british' as Accent, data: PRACTICE_DATA, spellings: BRITISH_SPELLINGS },
+  { accent: 'american' as Accent, data: AMERICAN_PRACTICE_DATA, spellings: AMERICAN_SPELLINGS },
+])('toIpa on the $accent track', ({ accent, data, spellings }) => {
+  const labels = getPhonemeLabels(data);
+
+  it('knows how the engine spells every practised phoneme', () => {
+    expect(labels.filter(label => !spellings[label])).toEqual([]);
+  });
+
+  it.each(labels)('maps the engine symbols for %s to its label', (label) => {
+    const { ipa88, cmu } = spellings[label];
+    if (ipa88) expect(spell(ipa88, accent)).toBe(label);
+    if (cmu) expect(spell(cmu, accent)).toBe(label);
+  });
+
+  it('returns null for unknown symbols', () => {
+    for (const symbol of ['', 'xx', 'Q', 'AH9', '#', 'iːː']) {
+      expect(toIpa(symbol, accent)).toBeNull();
+    }
+  });
+});
+
+describe('toIpa', () => {
+  it('accepts slashes, ASCII and full-width length marks, and lower-case CMU symbols', () => {
+    expect(toIpa('/i:/')).toBe('iː');
+    expect(toIpa('u：')).toBe('uː');
+    expect(toIpa('ah0')).toBe('ə');
+  });
+});
+
+describe('toIpaLabel', () => {
+  it('shows unknown symbols as returned', () => {
+    expect(toIpaLabel('xx')).toBe('/xx/');
+    expect(toIpaLabel('OW1', 'american')).toBe('/oʊ/');
+  });
+});
@@ -0,0 +1,91 @@
+import { Accent } from '../types';
+
+/**
+ * Maps phoneme symbols returned by the evaluation engine to the /iː/-style IPA
+ * labels used throughout PRACTICE_DATA, or the American /i/-style labels used by
+ * the American track.
+ *
+ * Xunfei's IPA88 dictionary uses the older "88 edition" notation taught in Chinese
+ * schools (e.g. /i/ for /ɪ/, /ɔ/ for /ɒ/, /əu/ for /əʊ/). CMU/ARPAbet symbols
+ * (e.g. "IY", "AH0") are accepted as well; American evaluations use them.
+ */
+
+// IPA88 symbol (with length marks normalized to 'ː') -> app IPA, without slashes.
+const IPA88_TO_IPA: { [symbol: string]: string } = {
+  // Long vowels
+  'iː': 'iː', 'əː': 'ɜː', 'ɜː': 'ɜː', 'ɑː': 'ɑː', 'aː': 'ɑː', 'ɔː': 'ɔː', 'uː': 'uː',
+  // Short vowels
+  'i': 'ɪ', 'ɪ': 'ɪ', 'e': 'e', 'ɛ': 'e', 'æ': 'æ', 'ə': 'ə', 'ʌ': 'ʌ', 'ɔ': 'ɒ', 'ɒ': 'ɒ', 'u': 'ʊ', 'ʊ': 'ʊ',
+  // Diphthongs
+  'ei': 'eɪ', 'eɪ': 'eɪ', 'ai': 'aɪ', 'aɪ': 'aɪ', 'ɔi': 'ɔɪ', 'ɔɪ': 'ɔɪ', 'au': 'aʊ', 'aʊ': 'aʊ',
+  'əu': 'əʊ', 'əʊ': 'əʊ', 'iə': 'ɪə', 'ɪə': 'ɪə', 'εə': 'eə', 'ɛə': 'eə', 'eə': 'eə', 'uə': 'ʊə', 'ʊə': 'ʊə',
+  // Voiceless consonants
+  'p': 'p', 't': 't', 'k': 'k', 'f': 'f', 's': 's', 'ʃ': 'ʃ', 'θ': 'θ', 'h': 'h',
+  'tʃ': 'tʃ', 'ʧ': 'tʃ', 'tr': 'tr', 'ts': 'ts',
+  // Voiced consonants
+  'b': 'b', 'd': 'd', 'g': 'g', 'ɡ': 'g', 'v': 'v', 'z': 'z', 'ʒ': 'ʒ', 'ð': 'ð', 'r': 'r', 'ɹ': 'r',
+  'dʒ': 'dʒ', 'ʤ': 'dʒ', 'dr': 'dr', 'dz': 'dz', 'm': 'm', 'n': 'n', 'ŋ': 'ŋ', 'l': 'l', 'w': 'w', 'j': 'j',
+};
+
+// CMU/ARPAbet symbol (upper case, stress digit removed) -> app IPA, without slashes.
+const CMU_TO_IPA: { [symbol: string]: string } = {
+  AA: 'ɑː', AE: 'æ', AH: 'ʌ', AO: 'ɔː', AW: 'aʊ', AY: 'aɪ', EH: 'e', ER: 'ɜː', EY: 'eɪ',
+  IH: 'ɪ', IY: 'iː', OW: 'əʊ', OY: 'ɔɪ', UH: 'ʊ', UW: 'uː',
+  B: 'b', CH: 'tʃ', D: 'd', DH: 'ð', F: 'f', G: 'g', HH: 'h', JH: 'dʒ', K: 'k', L: 'l', M: 'm',
+  N: 'n', NG: 'ŋ', P: 'p', R: 'r', S: 's', SH: 'ʃ', T: 't', TH: 'θ', V: 'v', W: 'w', Y: 'j', Z: 'z', ZH: 'ʒ',
+};
+
+// Unstressed AH and ER are reduced to schwa.
+const CMU_UNSTRESSED_TO_IPA: { [symbol: string]: string } = {
+  AH: 'ə',
+  ER: 'ə',
+};
+
+// CMU/ARPAbet symbol -> American IPA. Stressed ER is /ɝ/, unstressed /ɚ/.
+const CMU_TO_AMERICAN_IPA: { [symbol: string]: string } = {
+  ...CMU_TO_IPA,
+  AA: 'ɑ', AO: 'ɔ', EH: 'ɛ', ER: 'ɝ', IY: 'i', OW: 'oʊ', UW: 'u',
+};
+
+const CMU_UNSTRESSED_TO_AMERICAN_IPA: { [symbol: string]: string } = {
+  AH: 'ə',
+  ER: 'ɚ',
+};
+
+// British IPA -> the American label for the same sound, for IPA88 symbols on the American track.
+const BRITISH_TO_AMERICAN_IPA: { [ipa: string]: string } = {
+  'iː': 'i', 'ɜː': 'ɝ', 'ɑː': 'ɑ', 'ɔː': 'ɔ', 'uː': 'u', 'e': 'ɛ', 'ɒ': 'ɑ',
+  'əʊ': 'oʊ', 'ɪə': 'ɪr', 'eə': 'ɛr', 'ʊə': 'ʊr',
+};
+
+const normalizeIpa88 = (symbol: string): string =>
+  symbol.trim().replace(/^\/|\/$/g, '').replace(/[:：]/g, 'ː').replace(/ɡ/g, 'g');
+
+/**
+ * Converts a single engine phoneme symbol to bare IPA (e.g. "i:" -> "iː", "AH0" -> "ə";
+ * "IY" -> "i" on the American track). Returns null when the symbol is not recognised.
+ */
+export const toIpa = (symbol: string, accent: Accent = 'british'): string | null => {
+  const ipa88 = normalizeIpa88(symbol);
+  if (IPA88_TO_IPA[ipa88]) {
+    const ipa = IPA88_TO_IPA[ipa88];
+    return accent === 'american' ? BRITISH_TO_AMERICAN_IPA[ipa] ?? ipa : ipa;
+  }
+
+  const cmu = symbol.trim().toUpperCase().match(/^([A-Z]+)([012])?$/);
+  if (cmu) {
+    const [, base, stress] = cmu;
+    const unstressed = accent === 'american' ? CMU_UNSTRESSED_TO_AMERICAN_IPA : CMU_UNSTRESSED_TO_IPA;
+    if (stress === '0' && unstressed[base]) {
+      return unstressed[base];
+    }
+    return (accent === 'american' ? CMU_TO_AMERICAN_IPA : CMU_TO_IPA)[base] || null;
+  }
+  return null;
+};
+
+/**
+ * Formats an engine phoneme symbol as an app label such as "/iː/". Unknown symbols
+ * are shown as returned so nothing is silently hidden from the learner.
+ */
+export const toIpaLabel = (symbol: string, accent: Accent = 'british'): string => `/${toIpa(symbol, accent) ?? symbol}/`;
@@ -0,0 +1,209 @@
+import { Accent, PracticeAttempt, PracticeAttemptSummary, PracticeData, PracticeItem, PracticeLevel } from '../types';
+import { AMERICAN_PRACTICE_DATA, PRACTICE_DATA } from '../constants';
+import { getCurrentUser } from './authService';
+
+const DB_NAME = 'pronunciation_coach';
+const DB_VERSION = 3;
+const ATTEMPTS_STORE = 'attempts';
+// Recordings live apart from the attempts, keyed by attempt id, so that reading the
+// whole history for mastery and review never touches them.
+const RECORDINGS_STORE = 'recordings';
+
+// Attempts made without a signed-in user are stored under this id.
+export const GUEST_USER_ID = 'guest';
+
+export type NewPracticeAttempt = Omit<PracticeAttempt, 'id' | 'timestamp'>;
+
+interface StoredRecording {
+  attemptId: string;
+  recording: Blob;
+  recordingMimeType: string;
+}
+
+export interface ListAttemptsOptions {
+  itemKey?: string;
+  accent?: Accent; // Only attempts on this track
+  limit?: number;  // Most recent attempts first
+}
+
+/**
+ * Storage for practice attempts. The browser uses IndexedDB; a server-backed
+ * implementation can be swapped in later without touching the UI.
+ */
+export interface PracticeHistoryRepository {
+  saveAttempt(attempt: NewPracticeAttempt): Promise<PracticeAttempt>;
+  listAttempts(userId: string, options?: ListAttemptsOptions): Promise<PracticeAttempt[]>;
+  /** Every attempt by the user, oldest first, without the recordings. */
+  listAttemptSummaries(userId: string): Promise<PracticeAttemptSummary[]>;
+}
+
+/**
+ * Builds the key used to group attempts at the same item. The tracks share words,
+ * sentences and consonants, so the accent is part of the key to keep their progress apart.
+ */
+export const getItemKey = (accent: Accent, level: PracticeLevel, item: PracticeItem): string =>
+  `${accent}:${level}:${item.text}`;
+
+/**
+ * Returns the id that history entries for the current user are stored under.
+ */
+export const getHistoryUserId = (): string => getCurrentUser()?.identifier || GUEST_USER_ID;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Resolves once every write in the transaction has been committed.
+const transactionToPromise = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('The transaction was aborted.', 'AbortError'));
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前浏览器不支持本地练习记录存储。'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ATTEMPTS_STORE)) {
+        const store = db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id' });
+        store.createIndex('byUser', ['userId', 'timestamp']);
+        store.createIndex('byUserItem', ['userId', 'itemKey', 'timestamp']);
+      }
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: 'attemptId' });
+      }
+      if (event.oldVersion > 0 && event.oldVersion < 3) {
+        upgradeAttempts(request.transaction!, event.oldVersion);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const hasItem = (data: PracticeData, level: PracticeLevel, text: string): boolean =>
+  level === PracticeLevel.Phonemes
+    ? data[level].some(sup => sup.categories.some(cat => cat.items.some(item => item.text === text)))
+    : data[level].some(item => item.text === text);
+
+// Attempts from before version 3 do not say which track they were made on. An item only
+// the American track has must have been practised there; anything the tracks share is
+// put on the British one, which was the only track for most of that time.
+const guessAccent = (level: PracticeLevel, item: PracticeItem): Accent =>
+  hasItem(AMERICAN_PRACTICE_DATA, level, item.text) && !hasItem(PRACTICE_DATA, level, item.text) ? 'american' : 'british';
+
+// Version 1 kept each recording inside its attempt; versions 1 and 2 keyed items
+// without the accent.
+const upgradeAttempts = (tx: IDBTransaction, oldVersion: number) => {
+  const recordings = tx.objectStore(RECORDINGS_STORE);
+  const cursorRequest = tx.objectStore(ATTEMPTS_STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const { recording, recordingMimeType, ...summary } = cursor.value as PracticeAttempt;
+    if (oldVersion === 1 && recording && recordingMimeType) {
+      const stored: StoredRecording = { attemptId: summary.id, recording, recordingMimeType };
+      recordings.put(stored);
+    }
+    const accent = guessAccent(summary.level, summary.item);
+    cursor.update({ ...summary, accent, itemKey: getItemKey(accent, summary.level, summary.item) });
+    cursor.continue();
+  };
+};
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Creates a repository that keeps practice history in the browser's IndexedDB.
+ */
+export const createIndexedDbHistoryRepository = (): PracticeHistoryRepository => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().catch((error) => {
+        dbPromise = null; // Allow a retry on the next call.
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async saveAttempt(attempt) {
+      const db = await getDb();
+      const saved: PracticeAttempt = { ...attempt, id: generateId(), timestamp: Date.now() };
+      const { recording, recordingMimeType, ...summary } = saved;
+      const tx = db.transaction([ATTEMPTS_STORE, RECORDINGS_STORE], 'readwrite');
+      if (recording && recordingMimeType) {
+        const stored: StoredRecording = { attemptId: saved.id, recording, recordingMimeType };
+        tx.objectStore(RECORDINGS_STORE).add(stored);
+      }
+      tx.objectStore(ATTEMPTS_STORE).add(summary);
+      // If either write fails, e.g. over the storage quota, neither row is kept.
+      await transactionToPromise(tx);
+      return saved;
+    },
+
+    async listAttempts(userId, options = {}) {
+      const db = await getDb();
+      const tx = db.transaction([ATTEMPTS_STORE, RECORDINGS_STORE], 'readonly');
+      const store = tx.objectStore(ATTEMPTS_STORE);
+      const recordings = tx.objectStore(RECORDINGS_STORE);
+      const range = options.itemKey
+        ? IDBKeyRange.bound([userId, options.itemKey, -Infinity], [userId, options.itemKey, Infinity])
+        : IDBKeyRange.bound([userId, -Infinity], [userId, Infinity]);
+      const index = store.index(options.itemKey ? 'byUserItem' : 'byUser');
+
+      // Walk the index newest-first so `limit` keeps the most recent attempts, fetching
+      // each one's recording in the same transaction. An attempt whose recording is gone
+      // is still listed, just without anything to play. Without an item key the index
+      // covers every track, so other accents are skipped here.
+      const attempts = await new Promise<Promise<PracticeAttempt>[]>((resolve, reject) => {
+        const found: Promise<PracticeAttempt>[] = [];
+        const request = index.openCursor(range, 'prev');
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || (options.limit && found.length >= options.limit)) {
+            resolve(found);
+            return;
+          }
+          const summary = cursor.value as PracticeAttemptSummary;
+          if (options.accent && summary.accent !== options.accent) {
+            cursor.continue();
+            return;
+          }
+          found.push(requestToPromise<StoredRecording | undefined>(recordings.get(summary.id))
+            .then(stored => stored
+              ? { ...summary, recording: stored.recording, recordingMimeType: stored.recordingMimeType }
+              : summary));
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+      return Promise.all(attempts);
+    },
+
+    async listAttemptSummaries(userId) {
+      const db = await getDb();
+      const index = db.transaction(ATTEMPTS_STORE, 'readonly').objectStore(ATTEMPTS_STORE).index('byUser');
+      return requestToPromise(index.getAll(IDBKeyRange.bound([userId, -Infinity], [userId, Infinity]))) as Promise<PracticeAttemptSummary[]>;
+    },
+  };
+};
+
+// The repository used by the app.
+export const practiceHistory: PracticeHistoryRepository = createIndexedDbHistoryRepository();
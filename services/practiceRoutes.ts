@@ -0,0 +1,45 @@
+import { Accent, PhonemeCategory, PhonemeSuperCategory, PracticeLevel } from '../types';
+import { PRACTICE_DATA_BY_ACCENT } from '../constants';
+
+export const PRACTICE_PATH = '/practice';
+
+/**
+ * Turns a category title such as 'Short Vowels (短元音)' into 'short-vowels'.
+ */
+export const getCategorySlug = (title: string): string =>
+  title.replace(/\(.*?\)/g, '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const findCategoryBySlug = (slug: string, accent: Accent = 'british'): PhonemeCategory | null => {
+  const phonemeData = PRACTICE_DATA_BY_ACCENT[accent][PracticeLevel.Phonemes] as PhonemeSuperCategory[];
+  for (const superCategory of phonemeData) {
+    const category = superCategory.categories.find(cat => getCategorySlug(cat.title) === slug);
+    if (category) return category;
+  }
+  return null;
+};
+
+export const getCategoryPath = (title: string): string => `${PRACTICE_PATH}/${getCategorySlug(title)}`;
+
+// The phoneme level is the default, so it has no segment of its own.
+export const getLevelPath = (level: PracticeLevel): string =>
+  level === PracticeLevel.Phonemes ? PRACTICE_PATH : `${PRACTICE_PATH}/${level}`;
+
+export type PracticeTarget =
+  | { kind: 'category'; category: PhonemeCategory }
+  | { kind: 'level'; level: PracticeLevel };
+
+/**
+ * Resolves the segment after '/practice': a phoneme category slug or a level name.
+ * Anything unknown, including a category the accent does not have, falls back to the
+ * phoneme level.
+ */
+export const resolvePracticeSlug = (slug: string | null, accent: Accent = 'british'): PracticeTarget => {
+  if (slug) {
+    const category = findCategoryBySlug(slug, accent);
+    if (category) return { kind: 'category', category };
+    if ((Object.values(PracticeLevel) as string[]).includes(slug)) {
+      return { kind: 'level', level: slug as PracticeLevel };
+    }
+  }
+  return { kind: 'level', level: PracticeLevel.Phonemes };
+};
@@ -0,0 +1,74 @@
+/**
+ * Preflight check of a take before it is scored. Many poor scores come from the
+ * recording rather than the pronunciation: clipped, far too quiet, or buried in noise.
+ */
+
+import { RecordingIssue, RecordingQuality, RecordingQualityConfig } from '../types';
+import { RECORDING_QUALITY_CONFIG } from '../constants';
+
+const FRAME_MS = 20;
+// Samples this close to full scale count as clipped.
+const CLIPPING_LEVEL = 0.99;
+// Percentiles of the frame levels taken as the background noise and as the speech.
+const NOISE_PERCENTILE = 0.1;
+const SPEECH_PERCENTILE = 0.9;
+
+// Issues that keep a take from being submitted at all; the others are only warnings.
+const BLOCKING_ISSUES: RecordingIssue[] = ['too_short'];
+
+const toDb = (power: number): number => 10 * Math.log10(power || 1e-10);
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+/**
+ * Measures a take. The background noise is estimated from its quietest frames unless
+ * `noiseDb` gives a level measured separately, e.g. during microphone calibration.
+ */
+export const analyzeRecordingQuality = (
+  samples: Float32Array,
+  sampleRate: number,
+  noiseDb: number | null = null,
+  config: RecordingQualityConfig = RECORDING_QUALITY_CONFIG
+): RecordingQuality => {
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_MS / 1000));
+  const frameDbs: number[] = [];
+  let peak = 0;
+  let clipped = 0;
+  let totalPower = 0;
+
+  for (let start = 0; start < samples.length; start += frameLength) {
+    const end = Math.min(start + frameLength, samples.length);
+    let framePower = 0;
+    for (let i = start; i < end; i++) {
+      const magnitude = Math.abs(samples[i]);
+      peak = Math.max(peak, magnitude);
+      if (magnitude >= CLIPPING_LEVEL) clipped++;
+      framePower += samples[i] * samples[i];
+    }
+    totalPower += framePower;
+    frameDbs.push(toDb(framePower / (end - start)));
+  }
+  frameDbs.sort((a, b) => a - b);
+
+  const durationMs = (samples.length / sampleRate) * 1000;
+  const rmsDb = toDb(totalPower / (samples.length || 1));
+  const clippingRatio = clipped / (samples.length || 1);
+  const snrDb = frameDbs.length
+    ? percentile(frameDbs, SPEECH_PERCENTILE) - (noiseDb ?? percentile(frameDbs, NOISE_PERCENTILE))
+    : 0;
+
+  const issues: RecordingIssue[] = [];
+  if (durationMs < config.minDurationMs) issues.push('too_short');
+  if (rmsDb < config.minRmsDb) issues.push('too_quiet');
+  if (clippingRatio > config.maxClippingRatio) issues.push('clipped');
+  if (snrDb < config.minSnrDb) issues.push('noisy');
+
+  return { durationMs, peakDb: toDb(peak * peak), rmsDb, clippingRatio, snrDb, issues };
+};
+
+/**
+ * Whether a take is too flawed to be worth an evaluation.
+ */
+export const isSubmittable = (quality: RecordingQuality): boolean =>
+  !quality.issues.some(issue => BLOCKING_ISSUES.includes(issue));
@@ -0,0 +1,36 @@
+import { Accent, PracticeItem } from '../types';
+import { ACCENT_TTS_VOICES } from '../constants';
+import { getTtsAudio } from './xunfeiService';
+
+// 'isolated' plays the phoneme on its own, 'example' plays the example word via TTS.
+export type ReferenceSource = 'isolated' | 'example';
+
+/**
+ * Returns the text TTS should read for an item and reference source.
+ */
+export const getReferenceTtsText = (item: PracticeItem, source: ReferenceSource): string =>
+  source === 'example'
+    ? item.exampleWord || item.speakableText || item.text
+    : item.speakableText || item.exampleWord || item.text;
+
+/**
+ * Fetches the reference audio for an item as raw bytes. The bundled recording is
+ * used for isolated sounds when it exists; everything else is synthesized by TTS.
+ */
+export const fetchReferenceAudio = async (item: PracticeItem, source: ReferenceSource, accent: Accent): Promise<ArrayBuffer> => {
+  if (source === 'isolated' && item.refAudioUrl) {
+    const response = await fetch(item.refAudioUrl);
+    if (response.ok) {
+      return response.arrayBuffer();
+    }
+    console.warn(`Reference recording ${item.refAudioUrl} could not be loaded. Falling back to TTS.`);
+  }
+
+  const textToSpeak = getReferenceTtsText(item, source);
+  if (!textToSpeak) {
+    throw new Error('此项目没有可供朗读的文本。');
+  }
+  const audioBase64 = await getTtsAudio(textToSpeak, { voice: ACCENT_TTS_VOICES[accent] });
+  const response = await fetch(`data:audio/mpeg;base64,${audioBase64}`);
+  return response.arrayBuffer();
+};
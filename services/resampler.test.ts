@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createResampler } from './resampler';
+
+const tone = (frequency: number, sampleRate: number, length: number): Float32Array =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+// Anything that is not a single tone: a few tones and a little deterministic noise.
+const speechLike = (length: number): Float32Array => {
+  let seed = 1;
+  return Float32Array.from({ length }, (_, i) => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return 0.4 * Math.sin(i / 7) + 0.3 * Math.sin(i / 2.3) + 0.2 * (seed / 2 ** 31 - 0.5);
+  });
+};
+
+const convertAll = (input: Float32Array, from: number, to: number): Float32Array => {
+  const resampler = createResampler(from, to);
+  return concat([resampler.push(input), resampler.flush()]);
+};
+
+const concat = (chunks: Float32Array[]): Float32Array => {
+  const output = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+// The largest magnitude away from the ends, where the filter runs into the silence around the clip.
+const steadyPeak = (samples: Float32Array): number =>
+  samples.subarray(200, samples.length - 200).reduce((peak, sample) => Math.max(peak, Math.abs(sample)), 0);
+
+describe('createResampler', () => {
+  it('passes a 1 kHz tone from 48 kHz to 16 kHz at full amplitude', () => {
+    const output = convertAll(tone(1000, 48000, 48000), 48000, 16000);
+    expect(steadyPeak(output)).toBeCloseTo(1, 2);
+  });
+
+  it('removes a 10 kHz tone, above the 16 kHz Nyquist frequency, by at least 80 dB', () => {
+    const output = convertAll(tone(10000, 48000, 48000), 48000, 16000);
+    expect(20 * Math.log10(steadyPeak(output))).toBeLessThan(-80);
+  });
+
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+    [22050, 16000],
+  ])('gives the same samples from %i Hz in chunks as in one go', (from, to) => {
+    const input = speechLike(10000);
+    const whole = convertAll(input, from, to);
+
+    const resampler = createResampler(from, to);
+    const chunks: Float32Array[] = [];
+    const sizes = [128, 1, 37, 1000, 0, 2048, 511];
+    for (let offset = 0, i = 0; offset < input.length; offset += sizes[i++ % sizes.length]) {
+      chunks.push(resampler.push(input.subarray(offset, offset + sizes[i % sizes.length])));
+    }
+    chunks.push(resampler.flush());
+    const chunked = concat(chunks);
+
+    expect(chunked.length).toBe(whole.length);
+    chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it.each([
+    [48000, 16000, 48000],
+    [48000, 16000, 1],
+    [44100, 16000, 44101],
+    [44100, 16000, 7],
+    [22050, 16000, 12345],
+    [8000, 16000, 999],
+  ])('turns %i Hz into %i Hz with round(n / step) samples for n = %i', (from, to, length) => {
+    expect(convertAll(speechLike(length), from, to).length).toBe(Math.round(length / (from / to)));
+  });
+});
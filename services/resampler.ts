@@ -0,0 +1,115 @@
+/**
+ * Band-limited sample rate conversion for microphone audio. Each output sample is a
+ * Kaiser-windowed sinc filter over the input, so anything above the new Nyquist
+ * frequency is removed instead of folding back into the speech band as aliasing.
+ */
+
+// Width of the filter, in zero crossings of the sinc on each side of its centre.
+const ZERO_CROSSINGS = 16;
+// Centre of the filter's transition band, as a fraction of the lower Nyquist frequency.
+// At 16 kHz the passband is flat to about 6.5 kHz, well past what scoring needs.
+const CUTOFF = 0.9;
+// Kaiser window shape; 9 gives about 90 dB of stopband attenuation, below 16-bit noise.
+const KAISER_BETA = 9;
+// Resolution of the precomputed filter, in steps per input sample.
+const TABLE_STEPS = 256;
+
+export interface Resampler {
+  /** Converts the next chunk of input. Filter state carries over between chunks. */
+  push(input: Float32Array): Float32Array;
+  /** Ends the stream and returns the samples the filter was still holding back. */
+  flush(): Float32Array;
+}
+
+// Zeroth-order modified Bessel function of the first kind, by its power series.
+const besselI0 = (x: number): number => {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; term > sum * 1e-12; k++) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+  }
+  return sum;
+};
+
+/**
+ * Creates a streaming converter from `sourceSampleRate` to `targetSampleRate`. Output
+ * sample n lines up with input time n / targetSampleRate, so a stream of chunks followed
+ * by `flush` gives the same samples as converting the whole recording at once.
+ */
+export const createResampler = (sourceSampleRate: number, targetSampleRate: number): Resampler => {
+  if (sourceSampleRate === targetSampleRate) {
+    return { push: input => input.slice(), flush: () => new Float32Array(0) };
+  }
+
+  const step = sourceSampleRate / targetSampleRate; // Input samples per output sample
+  // Cutoff in cycles per input sample, below the Nyquist frequency of both rates.
+  const cutoff = (CUTOFF / 2) * Math.min(1, 1 / step);
+  const halfWidth = ZERO_CROSSINGS / (2 * cutoff); // In input samples
+  const reach = Math.ceil(halfWidth);
+
+  // One side of the symmetric filter, sampled every 1 / TABLE_STEPS of an input sample.
+  const table = new Float32Array(Math.ceil(halfWidth * TABLE_STEPS) + 2);
+  const windowScale = besselI0(KAISER_BETA);
+  for (let i = 0; i < table.length; i++) {
+    const t = i / TABLE_STEPS;
+    if (t >= halfWidth) break;
+    const x = 2 * cutoff * t;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = besselI0(KAISER_BETA * Math.sqrt(1 - (t / halfWidth) ** 2)) / windowScale;
+    table[i] = 2 * cutoff * sinc * window;
+  }
+
+  const filterAt = (distance: number): number => {
+    if (Math.abs(distance) >= halfWidth) return 0;
+    const position = Math.abs(distance) * TABLE_STEPS;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    return table[index] + fraction * (table[index + 1] - table[index]);
+  };
+
+  // Input not yet fully used, starting `reach` samples of silence before the first
+  // sample so the filter has history from the start.
+  let pending: Float32Array = new Float32Array(reach);
+  // Position of the next output sample, in input samples from the start of `pending`.
+  let time = reach;
+  let inputLength = 0;
+  let outputLength = 0;
+
+  const convert = (input: Float32Array): Float32Array => {
+    const buffer = new Float32Array(pending.length + input.length);
+    buffer.set(pending);
+    buffer.set(input, pending.length);
+
+    const output: number[] = [];
+    while (Math.floor(time) + reach < buffer.length) {
+      const centre = Math.floor(time);
+      let sum = 0;
+      for (let i = centre - reach + 1; i <= centre + reach; i++) {
+        sum += buffer[i] * filterAt(time - i);
+      }
+      output.push(sum);
+      time += step;
+    }
+
+    const keepFrom = Math.floor(time) - reach + 1;
+    pending = buffer.slice(keepFrom);
+    time -= keepFrom;
+    outputLength += output.length;
+    return Float32Array.from(output);
+  };
+
+  return {
+    push(input) {
+      inputLength += input.length;
+      return convert(input);
+    },
+    flush() {
+      // Silence after the end lets the filter finish the last samples; the output stops
+      // where the input did.
+      const expected = Math.round(inputLength / step);
+      const tail = convert(new Float32Array(reach));
+      return tail.subarray(0, Math.max(0, expected - (outputLength - tail.length)));
+    },
+  };
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { EvaluationResult, PracticeAttemptSummary, PracticeLevel, ReviewCard } from '../types';
+import { applyReview, buildReviewCards, getAttemptQuality, getDailyQueue, scoreToQuality } from './reviewScheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 9am local time, so "end of today" is the same whatever the test machine's time zone.
+const NOW = new Date(2026, 0, 10, 9, 0).getTime();
+
+const result = (overall: number, phonemeScores: number[] = []): EvaluationResult =>
+  ({ overall, words: [{ phonemes: phonemeScores.map(pronunciation => ({ pronunciation })) }] }) as unknown as EvaluationResult;
+
+const attempt = (itemKey: string, timestamp: number, overall: number, phonemeScores?: number[]): PracticeAttemptSummary => ({
+  id: `${itemKey}-${timestamp}`,
+  userId: 'learner',
+  itemKey,
+  accent: 'british',
+  level: PracticeLevel.Words,
+  item: { text: itemKey, ipa: '' },
+  result: result(overall, phonemeScores),
+  timestamp,
+});
+
+const card = (overrides: Partial<ReviewCard> = {}): ReviewCard => ({
+  itemKey: 'words:cat',
+  level: PracticeLevel.Words,
+  item: { text: 'cat', ipa: '' },
+  easiness: 2.5,
+  interval: 0,
+  repetitions: 0,
+  lastReviewedAt: NOW,
+  dueAt: NOW,
+  ...overrides,
+});
+
+describe('scoreToQuality', () => {
+  it('maps score bands to SM-2 grades', () => {
+    expect([100, 90, 89, 80, 60, 59, 40, 20, 19, 0].map(scoreToQuality)).toEqual([5, 5, 4, 4, 3, 2, 2, 1, 0, 0]);
+  });
+});
+
+describe('getAttemptQuality', () => {
+  it('grades on the overall score when there are no phonemes', () => {
+    expect(getAttemptQuality(result(85))).toBe(4);
+  });
+
+  it('lets the weakest phoneme cap the grade', () => {
+    expect(getAttemptQuality(result(95, [98, 35, 90]))).toBe(1);
+  });
+
+  it('never grades above the overall score', () => {
+    expect(getAttemptQuality(result(65, [100, 100]))).toBe(3);
+  });
+});
+
+describe('applyReview', () => {
+  it('grows the interval 1, 6, then by the easiness factor', () => {
+    const first = applyReview(card(), 5, NOW);
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, dueAt: NOW + DAY_MS });
+    expect(first.easiness).toBeCloseTo(2.6);
+
+    const second = applyReview(first, 5, first.dueAt);
+    expect(second).toMatchObject({ repetitions: 2, interval: 6, dueAt: first.dueAt + 6 * DAY_MS });
+
+    const third = applyReview(second, 4, second.dueAt);
+    expect(third.repetitions).toBe(3);
+    expect(third.interval).toBe(Math.round(6 * second.easiness));
+    expect(third.easiness).toBeCloseTo(second.easiness);
+  });
+
+  it('resets the repetitions and interval on a lapse', () => {
+    const lapsed = applyReview(card({ repetitions: 4, interval: 30, easiness: 2.5 }), 2, NOW);
+    expect(lapsed).toMatchObject({ repetitions: 0, interval: 1, lastReviewedAt: NOW, dueAt: NOW + DAY_MS });
+    expect(lapsed.easiness).toBeCloseTo(2.18);
+  });
+
+  it('keeps the easiness at or above 1.3', () => {
+    expect(applyReview(card({ easiness: 1.35 }), 0, NOW).easiness).toBe(1.3);
+  });
+});
+
+describe('buildReviewCards', () => {
+  it('schedules each item from its first attempt', () => {
+    const cards = buildReviewCards([attempt('words:cat', NOW, 95), attempt('words:dog', NOW, 50)]);
+    expect(cards.map(c => [c.itemKey, c.repetitions, c.dueAt])).toEqual([
+      ['words:cat', 1, NOW + DAY_MS],
+      ['words:dog', 0, NOW + DAY_MS],
+    ]);
+  });
+
+  it('ignores passing attempts made before the item is due', () => {
+    const cards = buildReviewCards([
+      attempt('words:cat', NOW, 95),
+      attempt('words:cat', NOW + 60_000, 95),
+      attempt('words:cat', NOW + 120_000, 95),
+    ]);
+    expect(cards[0]).toMatchObject({ repetitions: 1, interval: 1, lastReviewedAt: NOW });
+  });
+
+  it('counts a failing attempt at any time', () => {
+    const cards = buildReviewCards([attempt('words:cat', NOW, 95), attempt('words:cat', NOW + 60_000, 30)]);
+    expect(cards[0]).toMatchObject({ repetitions: 0, lastReviewedAt: NOW + 60_000 });
+  });
+
+  it('replays attempts in chronological order whatever order they arrive in', () => {
+    const attempts = [attempt('words:cat', NOW, 95), attempt('words:cat', NOW + DAY_MS, 95)];
+    expect(buildReviewCards([...attempts].reverse())).toEqual(buildReviewCards(attempts));
+    expect(buildReviewCards(attempts)[0]).toMatchObject({ repetitions: 2, interval: 6 });
+  });
+});
+
+describe('getDailyQueue', () => {
+  const cards = [
+    card({ itemKey: 'later-today', dueAt: NOW + 2 * 60 * 60 * 1000 }),
+    card({ itemKey: 'tomorrow', dueAt: NOW + DAY_MS }),
+    card({ itemKey: 'overdue-easy', dueAt: NOW - DAY_MS, easiness: 2.5 }),
+    card({ itemKey: 'overdue-hard', dueAt: NOW - DAY_MS, easiness: 1.5 }),
+    card({ itemKey: 'long-overdue', dueAt: NOW - 3 * DAY_MS }),
+  ];
+
+  it('returns the cards due by the end of today, most overdue and then hardest first', () => {
+    expect(getDailyQueue(cards, NOW, 20).map(c => c.itemKey)).toEqual([
+      'long-overdue',
+      'overdue-hard',
+      'overdue-easy',
+      'later-today',
+    ]);
+  });
+
+  it('caps the queue at the daily limit', () => {
+    expect(getDailyQueue(cards, NOW, 2).map(c => c.itemKey)).toEqual(['long-overdue', 'overdue-hard']);
+  });
+});
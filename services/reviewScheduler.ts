@@ -0,0 +1,115 @@
+import { EvaluationResult, PracticeAttemptSummary, ReviewCard } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+const PASSING_QUALITY = 3;
+
+/**
+ * Converts a 0-100 score into an SM-2 response quality from 0 (blackout) to 5 (perfect).
+ */
+export const scoreToQuality = (score: number): number => {
+  if (score >= 90) return 5;
+  if (score >= 80) return 4;
+  if (score >= 60) return 3;
+  if (score >= 40) return 2;
+  if (score >= 20) return 1;
+  return 0;
+};
+
+/**
+ * Grades an attempt. The weakest phoneme caps the grade, so a good overall score
+ * with one badly pronounced sound still brings the item back soon.
+ */
+export const getAttemptQuality = (result: EvaluationResult): number => {
+  const phonemeScores = (result.words || []).flatMap(word => (word.phonemes || []).map(p => p.pronunciation));
+  const weakest = phonemeScores.length > 0 ? Math.min(...phonemeScores) : result.overall;
+  return Math.min(scoreToQuality(result.overall), scoreToQuality(weakest));
+};
+
+/**
+ * Applies one SM-2 review to a card and returns the updated card.
+ */
+export const applyReview = (card: ReviewCard, quality: number, reviewedAt: number): ReviewCard => {
+  let { repetitions, interval } = card;
+  if (quality < PASSING_QUALITY) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * card.easiness);
+  }
+
+  const easiness = Math.max(
+    MIN_EASINESS,
+    card.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    ...card,
+    easiness,
+    interval,
+    repetitions,
+    lastReviewedAt: reviewedAt,
+    dueAt: reviewedAt + interval * DAY_MS,
+  };
+};
+
+/**
+ * Replays a learner's attempt history to build the review schedule for every item
+ * they have practised. Attempts made before an item falls due only count when they
+ * fail, so drilling an item several times in one sitting does not inflate its interval.
+ */
+export const buildReviewCards = (attempts: PracticeAttemptSummary[]): ReviewCard[] => {
+  const cards = new Map<string, ReviewCard>();
+  const chronological = [...attempts].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const attempt of chronological) {
+    const quality = getAttemptQuality(attempt.result);
+    const existing = cards.get(attempt.itemKey);
+
+    if (!existing) {
+      const card: ReviewCard = {
+        itemKey: attempt.itemKey,
+        level: attempt.level,
+        item: attempt.item,
+        easiness: INITIAL_EASINESS,
+        interval: 0,
+        repetitions: 0,
+        lastReviewedAt: attempt.timestamp,
+        dueAt: attempt.timestamp,
+      };
+      cards.set(attempt.itemKey, applyReview(card, quality, attempt.timestamp));
+      continue;
+    }
+
+    if (attempt.timestamp >= existing.dueAt || quality < PASSING_QUALITY) {
+      cards.set(attempt.itemKey, applyReview({ ...existing, item: attempt.item }, quality, attempt.timestamp));
+    }
+  }
+
+  return Array.from(cards.values());
+};
+
+const getEndOfDay = (now: number): number => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+};
+
+/**
+ * Returns the cards due by the end of today, most overdue first and, among equally
+ * due cards, the hardest first.
+ */
+export const getDueCards = (cards: ReviewCard[], now: number): ReviewCard[] => {
+  const endOfDay = getEndOfDay(now);
+  return cards
+    .filter(card => card.dueAt <= endOfDay)
+    .sort((a, b) => a.dueAt - b.dueAt || a.easiness - b.easiness);
+};
+
+/**
+ * Returns today's review session, capped at `dailyLimit` items.
+ */
+export const getDailyQueue = (cards: ReviewCard[], now: number, dailyLimit: number): ReviewCard[] =>
+  getDueCards(cards, now).slice(0, dailyLimit);
@@ -0,0 +1,96 @@
+/**
+ * Browser cache for synthesized reference audio, so replaying a demonstration is
+ * instant and works offline. Entries expire after a while, and the least recently
+ * played ones are evicted once the cache grows past its size budget.
+ */
+
+const DB_NAME = 'pronunciation_coach_tts';
+const DB_VERSION = 1;
+const AUDIO_STORE = 'audio';
+
+const TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_TOTAL_BYTES = 20 * 1024 * 1024;
+
+interface CachedAudio {
+  key: string;
+  audioBase64: string;
+  size: number;       // Approximate bytes held, for the size budget
+  createdAt: number;  // Unix ms; the TTL counts from here
+  lastUsedAt: number; // Unix ms; eviction drops the oldest first
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前浏览器不支持本地音频缓存。'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        const store = db.createObjectStore(AUDIO_STORE, { keyPath: 'key' });
+        store.createIndex('byLastUsed', 'lastUsedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().catch((error) => {
+      dbPromise = null; // Allow a retry on the next call.
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Drops expired entries, then the least recently used ones until the cache fits its budget.
+ */
+const evict = async (db: IDBDatabase, now: number): Promise<void> => {
+  const store = db.transaction(AUDIO_STORE, 'readwrite').objectStore(AUDIO_STORE);
+  const entries: CachedAudio[] = await requestToPromise(store.index('byLastUsed').getAll());
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries) { // Oldest first
+    if (now - entry.createdAt < TTL_MS && totalBytes <= MAX_TOTAL_BYTES) continue;
+    store.delete(entry.key);
+    totalBytes -= entry.size;
+  }
+};
+
+/**
+ * Returns cached audio for `key`, or null if there is none or it has expired.
+ */
+export const getCachedTtsAudio = async (key: string): Promise<string | null> => {
+  const db = await getDb();
+  const store = db.transaction(AUDIO_STORE, 'readwrite').objectStore(AUDIO_STORE);
+  const entry: CachedAudio | undefined = await requestToPromise(store.get(key));
+  const now = Date.now();
+  if (!entry || now - entry.createdAt >= TTL_MS) {
+    return null;
+  }
+  store.put({ ...entry, lastUsedAt: now });
+  return entry.audioBase64;
+};
+
+export const putCachedTtsAudio = async (key: string, audioBase64: string): Promise<void> => {
+  const db = await getDb();
+  const now = Date.now();
+  const entry: CachedAudio = { key, audioBase64, size: audioBase64.length * 2, createdAt: now, lastUsedAt: now };
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  await requestToPromise(tx.objectStore(AUDIO_STORE).put(entry));
+  await evict(db, now);
+};
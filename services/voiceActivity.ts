@@ -0,0 +1,122 @@
+/**
+ * Voice activity detection on 16 kHz PCM as it is recorded. It tells speech from
+ * background noise, measures the input level for the meter, and holds back the
+ * silence before and after the speech so it never leaves the recorder.
+ */
+
+import { VadConfig } from '../types';
+import { PCM_SAMPLE_RATE } from './audioUtils';
+
+// Levels at or below this show as an empty meter.
+const METER_FLOOR_DB = -60;
+// Frames this quiet are digital silence (e.g. while the microphone starts up), not the room.
+const DIGITAL_SILENCE_DB = -90;
+// How fast the noise floor rises towards louder frames, per frame: quickly through
+// background noise, barely at all through speech.
+const FLOOR_RISE_NOISE = 0.05;
+const FLOOR_RISE_SPEECH = 0.002;
+
+export interface VoiceActivityUpdate {
+  speech: Int16Array<ArrayBuffer> | null; // Audio ready to pass on: speech and its padding
+  level: number;     // The chunk's loudest frame, from 0 (silent) to 1 (full scale)
+  silenceMs: number; // Silence since the speech last paused; 0 before it starts
+}
+
+export interface VoiceActivityGate {
+  push(pcm: Int16Array): VoiceActivityUpdate;
+  /** Ends the take and returns the trailing padding, or null if there is none. */
+  flush(): Int16Array<ArrayBuffer> | null;
+  /** Whether any speech has been detected yet. */
+  readonly speechDetected: boolean;
+}
+
+const concat = (parts: Int16Array[]): Int16Array<ArrayBuffer> => {
+  const result = new Int16Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const frameDb = (frame: Int16Array): number => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += (frame[i] / 0x8000) ** 2;
+  }
+  return 10 * Math.log10(sum / frame.length || 1e-10);
+};
+
+/**
+ * Creates a gate for one take. `noiseFloorDb`, e.g. from microphone calibration, gives
+ * the detector a starting point; otherwise it learns the floor from the first frames.
+ */
+export const createVoiceActivityGate = (config: VadConfig, noiseFloorDb: number | null = null): VoiceActivityGate => {
+  const frameLength = Math.round(PCM_SAMPLE_RATE * config.frameMs / 1000);
+  const paddingFrames = Math.round(config.paddingMs / config.frameMs);
+  const onsetFrames = Math.max(1, Math.round(config.onsetMs / config.frameMs));
+
+  let remainder = new Int16Array(0);
+  let speechDetected = false;
+  let speechRun = 0;
+  // Before speech starts, the latest frames, kept as leading padding; after that, the
+  // frames since the speech last paused, released if it resumes.
+  let held: Int16Array[] = [];
+
+  const processFrame = (frame: Int16Array, released: Int16Array[]): number => {
+    const db = frameDb(frame);
+    const isSpeech = noiseFloorDb !== null && db > Math.max(config.minSpeechDb, noiseFloorDb + config.speechMarginDb);
+    // The floor drops at once to quieter frames and rises slowly, so it follows the room but not the voice.
+    if (db > DIGITAL_SILENCE_DB) {
+      noiseFloorDb = noiseFloorDb === null || db < noiseFloorDb
+        ? db
+        : noiseFloorDb + (isSpeech ? FLOOR_RISE_SPEECH : FLOOR_RISE_NOISE) * (db - noiseFloorDb);
+    }
+
+    if (!speechDetected) {
+      held.push(frame);
+      speechRun = isSpeech ? speechRun + 1 : 0;
+      if (speechRun >= onsetFrames) {
+        speechDetected = true;
+        released.push(...held);
+        held = [];
+      } else if (held.length > paddingFrames + onsetFrames) {
+        held.shift();
+      }
+    } else if (isSpeech) {
+      released.push(...held, frame);
+      held = [];
+    } else {
+      held.push(frame);
+    }
+    return db;
+  };
+
+  return {
+    push(pcm) {
+      const samples = concat([remainder, pcm]);
+      const released: Int16Array[] = [];
+      let loudestDb = -Infinity;
+      let offset = 0;
+      for (; offset + frameLength <= samples.length; offset += frameLength) {
+        loudestDb = Math.max(loudestDb, processFrame(samples.subarray(offset, offset + frameLength), released));
+      }
+      remainder = samples.slice(offset);
+
+      return {
+        speech: released.length ? concat(released) : null,
+        level: Math.min(1, Math.max(0, 1 - loudestDb / METER_FLOOR_DB)),
+        silenceMs: speechDetected ? held.length * config.frameMs : 0,
+      };
+    },
+    flush() {
+      const padding = speechDetected ? held.slice(0, paddingFrames) : [];
+      held = [];
+      return padding.length ? concat(padding) : null;
+    },
+    get speechDetected() {
+      return speechDetected;
+    },
+  };
+};
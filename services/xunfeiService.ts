@@ -1,21 +1,62 @@
-import { PracticeItem, PracticeLevel, EvaluationResult } from '../types';
+import { Accent, PracticeItem, PracticeLevel, EvaluationResult, EvaluationRequestBody, QuotaStatus, TtsRequestBody } from '../types';
+import { getCachedTtsAudio, putCachedTtsAudio } from './ttsCache';
+
+export const QUOTA_EXCEEDED = 'QUOTA_EXCEEDED';
+
+/**
+ * Gets the caller's remaining free evaluations for today.
+ */
+export const getQuotaStatus = async (): Promise<QuotaStatus> => {
+    const response = await fetch('/api/quota', { credentials: 'same-origin' });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.error || `额度查询失败: ${response.statusText}`);
+    }
+    return result as QuotaStatus;
+};
+
+/**
+ * The text an item is scored against: phonemes are judged through their example word.
+ */
+export const getReferenceText = (item: PracticeItem, level: PracticeLevel): string =>
+    level === PracticeLevel.Phonemes ? item.exampleWord || item.text : item.text;
+
+/**
+ * Turns an evaluation error body from our proxy into an Error with a message for the learner.
+ */
+export const toEvaluationError = (body: { error?: string; code?: string; quota?: QuotaStatus }, fallbackMessage: string): Error => {
+    // Check for specific error code from our proxy to provide better feedback.
+    if (body.code === QUOTA_EXCEEDED) {
+        // Callers switch to the upgrade prompt, so keep the code and the fresh quota status.
+        const quotaError = new Error(body.error || '今日免费测评次数已用完。');
+        Object.assign(quotaError, { code: QUOTA_EXCEEDED, quota: body.quota });
+        return quotaError;
+    }
+    if (body.code === 'XF_TIMEOUT') {
+        return new Error('AI 引擎响应超时。\n这通常意味着讯飞的“语音评测”服务尚未在您的应用ID下正确开通，或服务已到期。请登录讯飞开放平台检查。');
+    }
+    return new Error(body.error || fallbackMessage);
+};
 
 /**
  * Gets a pronunciation score from our backend proxy, which uses the Xunfei evaluation engine.
  */
 export const getPronunciationScore = async (
   audioBase64: string,
-  audioMimeType: string, // This is now always 'audio/mpeg' (MP3)
+  audioMimeType: string, // 'audio/mpeg', or 'audio/pcm' (16 kHz, 16-bit mono)
   item: PracticeItem,
-  level: PracticeLevel
+  level: PracticeLevel,
+  accent: Accent
 ): Promise<EvaluationResult> => {
     const url = `/api/evaluation`;
-    const referenceText = level === PracticeLevel.Phonemes ? item.exampleWord || item.text : item.text;
+    const referenceText = getReferenceText(item, level);
 
-    const requestBody = {
+    const requestBody: EvaluationRequestBody = {
         audioBase64,
         audioMimeType,
         referenceText,
+        level,
+        accent,
     };
 
     try {
@@ -28,16 +69,13 @@ export const getPronunciationScore = async (
         const result = await response.json();
 
         if (!response.ok) {
-            // Check for specific error code from our proxy to provide better feedback.
-            if (result.code === 'XF_TIMEOUT') {
-                throw new Error('AI 引擎响应超时。\n这通常意味着讯飞的“语音评测”服务尚未在您的应用ID下正确开通，或服务已到期。请登录讯飞开放平台检查。');
-            }
-            throw new Error(result.error || `AI评分服务网络错误: ${response.statusText}`);
+            throw toEvaluationError(result, `AI评分服务网络错误: ${response.statusText}`);
         }
         
         return result as EvaluationResult;
 
     } catch (error: any) {
+        if (error.code === QUOTA_EXCEEDED) throw error;
         console.error("Error getting pronunciation score (via proxy):", error);
         // Re-throw the specific error message from the proxy or a generic one.
         throw new Error(error.message || 'AI评分服务暂时不可用，请稍后再试。');
@@ -45,17 +83,28 @@ export const getPronunciationScore = async (
 };
 
 /**
- * Gets Text-to-Speech (TTS) audio from our backend proxy.
+ * Gets Text-to-Speech (TTS) audio from our backend proxy. Results are cached in the
+ * browser, so repeats skip the network and keep working offline.
  * @param text The text to synthesize into speech.
+ * @param options Optional speed, volume and voice; omitted ones use the server defaults.
  * @returns A base64 encoded string of the audio data.
  */
-export const getTtsAudio = async (text: string): Promise<string> => {
+export const getTtsAudio = async (text: string, options: Omit<TtsRequestBody, 'text'> = {}): Promise<string> => {
     const url = `/api/tts`;
+    const requestBody: TtsRequestBody = { text, ...options };
+    // The whole request is the key, so any synthesis option added later splits the cache too.
+    const cacheKey = JSON.stringify(requestBody);
+
+    const cachedAudio = await getCachedTtsAudio(cacheKey).catch(() => null);
+    if (cachedAudio) {
+        return cachedAudio;
+    }
+
     try {
         const response = await fetch(url, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ text }),
+            body: JSON.stringify(requestBody),
         });
 
         const result = await response.json();
@@ -64,9 +113,10 @@ export const getTtsAudio = async (text: string): Promise<string> => {
             throw new Error(result.error || `音频合成服务网络错误: ${response.statusText}`);
         }
 
+        putCachedTtsAudio(cacheKey, result.audioBase64).catch(error => console.warn('Failed to cache TTS audio:', error));
         return result.audioBase64;
     } catch (error: any) {
         console.error("Error getting TTS audio (via proxy):", error);
         throw new Error(error.message || '示范音频服务暂时不可用。');
     }
-};
\ No newline at end of file
+};
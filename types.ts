@@ -57,6 +57,7 @@ export type ScoreResult = EvaluationResult;
 // FIX: Added back the User interface, which is still used by authService and LoginPage.
 export interface User {
   identifier: string;
+  subscriptionExpiresAt: number | null; // Unix ms; null if never activated
 }
 
 // New types for structured phoneme data
@@ -79,12 +80,204 @@ export type PracticeData = {
 
 
 // --- NEW Types for Backend Proxy Requests ---
+// The accent a learner practises: British (RP) or General American.
+export type Accent = 'british' | 'american';
+
 export interface EvaluationRequestBody {
   audioBase64: string;
   audioMimeType: string;
   referenceText: string;
+  level: PracticeLevel; // Selects the evaluation engine mode (word, sentence or chapter)
+  accent?: Accent;      // Selects the evaluation dictionary; defaults to 'british'
 }
 
+// Messages on the /api/evaluation/stream WebSocket. Audio travels between 'start' and
+// 'end' as binary frames of 16 kHz, 16-bit little-endian mono PCM.
+export type EvaluationStreamClientMessage =
+  | { type: 'start'; referenceText: string; level: PracticeLevel; accent?: Accent }
+  | { type: 'end' };
+
+export type EvaluationStreamServerMessage =
+  | { type: 'result'; result: EvaluationResult }
+  | { type: 'error'; error: string; code: string };
+
+// Voices the TTS proxy accepts.
+export type TtsVoice = 'catherine' | 'henry' | 'x4_EnUs_Laura_education';
+
+// Reference playback speeds, relative to normal.
+export type PlaybackSpeed = 0.5 | 0.75 | 1;
+
 export interface TtsRequestBody {
   text: string;
-}
\ No newline at end of file
+  speed?: number;   // Relative to normal speech, 0.5 to 2 (default 1)
+  volume?: number;  // 0 to 100 (default 50)
+  voice?: TtsVoice; // Default 'catherine'
+}
+
+// --- Practice History Types ---
+
+// A single scored attempt at a practice item, as kept in the learner's history.
+export interface PracticeAttempt {
+  id: string;
+  userId: string;
+  itemKey: string; // Stable key for the item within its track and level, see `getItemKey`
+  accent: Accent;   // The track the attempt was made on
+  level: PracticeLevel;
+  item: PracticeItem;
+  result: EvaluationResult;
+  // Missing when the stored recording was lost, e.g. evicted by the browser.
+  recording?: Blob;
+  recordingMimeType?: string;
+  timestamp: number;
+}
+
+// An attempt without its recording, which is all mastery and review scheduling need.
+export type PracticeAttemptSummary = Omit<PracticeAttempt, 'recording' | 'recordingMimeType'>;
+
+// --- Mastery Types ---
+
+export interface MasteryConfig {
+  passingScore: number;
+  requiredPasses: number;
+  unlockThreshold: number; // 0-1
+}
+
+export interface MasteryProgress {
+  mastered: number;
+  total: number;
+  progress: number; // mastered / total, 0-1
+  isComplete: boolean;
+  isLocked: boolean;
+}
+
+// --- Recording Types ---
+
+// Voice activity detection while recording, see services/voiceActivity.ts.
+export interface VadConfig {
+  frameMs: number;         // Analysis frame length
+  speechMarginDb: number;  // How far above the noise floor a frame must be to count as speech
+  minSpeechDb: number;     // Frames quieter than this (dBFS) never count as speech
+  onsetMs: number;         // Continuous speech needed before a take counts as started
+  paddingMs: number;       // Silence kept before and after the speech when trimming
+  autoStopSilenceMs: number | null; // Silence after speech that ends the recording; null never stops
+}
+
+// Problems the preflight check finds in a take, see services/recordingQuality.ts.
+export type RecordingIssue = 'too_short' | 'too_quiet' | 'clipped' | 'noisy';
+
+export interface RecordingQuality {
+  durationMs: number;
+  peakDb: number;        // Loudest sample, dBFS
+  rmsDb: number;         // Level of the whole take, dBFS
+  clippingRatio: number; // Share of samples at full scale, 0-1
+  snrDb: number;         // Speech level over the background noise
+  issues: RecordingIssue[];
+}
+
+export interface RecordingQualityConfig {
+  minDurationMs: number;    // Shorter takes are not submitted at all
+  minRmsDb: number;         // Quieter takes are flagged as too quiet
+  maxClippingRatio: number; // More clipped samples than this are flagged
+  minSnrDb: number;         // Less speech over noise than this is flagged as noisy
+}
+
+// The result of the optional microphone check, kept per browser.
+export interface MicCalibration {
+  calibratedAt: number;       // Unix ms
+  noiseDb: number | null;     // Background noise measured in the room; null if skipped
+}
+
+// --- Review Scheduling Types ---
+
+// SM-2 scheduling state for one practice item, derived from its attempt history.
+export interface ReviewCard {
+  itemKey: string;
+  level: PracticeLevel;
+  item: PracticeItem;
+  easiness: number;    // SM-2 easiness factor, never below 1.3
+  interval: number;    // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  lastReviewedAt: number;
+  dueAt: number;
+}
+
+// --- Account API Types ---
+
+export interface AuthRequestBody {
+  identifier: string;
+  password: string;
+}
+
+export interface AuthResponse {
+  user: User;
+}
+
+export interface ActivationRedeemRequestBody {
+  code: string;
+}
+
+export interface ActivationRedeemResponse extends AuthResponse {
+  durationDays: number;
+}
+
+// --- Admin API Types ---
+
+export interface ActivationPlan {
+  label: string;
+  durationDays: number;
+}
+
+export interface IssuedCodeRecord {
+  code: string;
+  durationDays: number;
+  batchId: string;
+  createdAt: number;
+  createdBy: string;
+  note?: string;
+  redeemedBy?: string;
+  redeemedAt?: number;
+  revokedAt?: number;
+}
+
+export interface GenerateCodesRequestBody {
+  durationDays: number;
+  count: number;
+  note?: string;
+}
+
+export interface AdminUserSummary extends User {
+  createdAt: number;
+}
+
+export interface SubscriptionUpdateRequestBody {
+  identifier: string;
+  action: 'extend' | 'cancel';
+  days?: number; // Required for 'extend'
+}
+
+export interface DailyUsage {
+  date: string; // YYYY-MM-DD (UTC)
+  evaluation: number;
+  tts: number;
+}
+
+export interface AdminStats {
+  users: number;
+  activeSubscriptions: number;
+  codesIssued: number;
+  codesRedeemed: number;
+  codesRevoked: number;
+  usage: DailyUsage[];
+}
+
+// --- Quota API Types ---
+
+// 'subscription' means unlimited; the other scopes count free evaluations per UTC day.
+export type QuotaScope = 'subscription' | 'account' | 'device';
+
+export interface QuotaStatus {
+  scope: QuotaScope;
+  limit: number | null;     // null when unlimited
+  remaining: number | null; // null when unlimited
+  resetsAt: number;         // Unix ms of the next reset (UTC midnight)
+}